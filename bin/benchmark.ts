@@ -1,5 +1,5 @@
 import b from 'benny';
-import { boolean, number, object, Schema, string } from '../src';
+import { boolean, compile, number, object, Schema, string } from '../src';
 
 // https://github.com/moltar/typescript-runtime-type-benchmarks/blob/master/data.ts
 const data = {
@@ -19,6 +19,8 @@ const data = {
 
 type DataType = typeof data;
 
+const invalidData = { ...data, deeplyNested: { ...data.deeplyNested, num: 'one' } };
+
 const schema: Schema<DataType> = object({
     number: number(),
     negNumber: number(),
@@ -33,9 +35,14 @@ const schema: Schema<DataType> = object({
     }),
 });
 
+const compiled = compile(schema);
+
 b.suite(
     'Benchmark',
     b.add('Schema', () => schema.validate(data)),
+    b.add('Compiled schema', () => compiled.validate(data)),
+    b.add('Schema, invalid data', () => schema.validate(invalidData)),
+    b.add('Compiled schema, invalid data', () => compiled.validate(invalidData)),
     b.cycle(),
     b.complete(),
 );
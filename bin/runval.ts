@@ -0,0 +1,302 @@
+#!/usr/bin/env node
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { Issue, Schema } from '../src';
+
+const usage = `Usage: runval <schema-module> [files...] [options]
+
+Validates JSON, JSON array or NDJSON records read from the files (or stdin) against a schema
+exported by <schema-module>, as its default export or as the export named with --export.
+
+Options:
+  --export <name>       the export of the module to validate against
+  --format <format>     json (one record), array (one record per element), ndjson (one record per line)
+                        or auto (the default: ndjson for .ndjson and .jsonl files, array for JSON arrays
+                        unless the schema validates arrays, json otherwise)
+  --output <output>     human (the default) or json
+  --max-errors <n>      stops after n invalid records
+  --summary             reports the counts of valid and invalid records
+  -h, --help            prints this message
+
+Exits with 1 when a record is invalid, and 2 for invalid arguments or unreadable input.`;
+
+type Format = 'auto' | 'json' | 'array' | 'ndjson';
+
+interface Options {
+    module: string;
+    files: string[];
+    exportName?: string;
+    format: Format;
+    output: 'human' | 'json';
+    maxErrors: number;
+    summary: boolean;
+}
+
+export interface IO {
+    stdin: Readable;
+    stdout: Writable;
+    stderr: Writable;
+    cwd: string;
+}
+
+/** A failing record: `line` for NDJSON, `index` for the elements of JSON arrays. */
+interface Failure {
+    source: string;
+    line?: number;
+    index?: number;
+    issues?: Issue[];
+    error?: string;
+}
+
+interface Entry {
+    location: Omit<Failure, 'issues' | 'error'>;
+    value?: unknown;
+    error?: string;
+}
+
+class UsageError extends Error {}
+
+const parseArgs = (args: string[]): Options | undefined => {
+    const positional: string[] = [];
+    const options: Partial<Options> = { format: 'auto', output: 'human', maxErrors: Infinity, summary: false };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        const value = () => {
+            if (i + 1 >= args.length) {
+                throw new UsageError(`Missing value for ${arg}`);
+            }
+            return args[++i];
+        };
+        switch (arg) {
+            case '-h':
+            case '--help':
+                return undefined;
+            case '--export':
+                options.exportName = value();
+                break;
+            case '--format': {
+                const format = value();
+                if (!['auto', 'json', 'array', 'ndjson'].includes(format)) {
+                    throw new UsageError(`Unknown format '${format}'`);
+                }
+                options.format = format as Format;
+                break;
+            }
+            case '--output': {
+                const output = value();
+                if (output !== 'human' && output !== 'json') {
+                    throw new UsageError(`Unknown output '${output}'`);
+                }
+                options.output = output;
+                break;
+            }
+            case '--max-errors': {
+                const max = Number(value());
+                if (!Number.isInteger(max) || max < 1) {
+                    throw new UsageError('--max-errors expects a positive integer');
+                }
+                options.maxErrors = max;
+                break;
+            }
+            case '--summary':
+                options.summary = true;
+                break;
+            default:
+                if (arg.startsWith('--')) {
+                    throw new UsageError(`Unknown option ${arg}`);
+                }
+                positional.push(arg);
+        }
+    }
+
+    const [module, ...files] = positional;
+    if (module === undefined) {
+        throw new UsageError('Missing the schema module');
+    }
+    return { ...options, module, files } as Options;
+};
+
+const isSchema = (value: unknown): value is Schema =>
+    typeof value === 'object' && value !== null && 'def' in value && typeof (value as Schema).validate === 'function';
+
+const loadSchema = (file: string, exportName: string | undefined, cwd: string): Schema => {
+    const exports = require(path.resolve(cwd, file));
+    if (exportName !== undefined) {
+        if (!isSchema(exports[exportName])) {
+            throw new UsageError(`${file} does not export a schema named ${exportName}`);
+        }
+        return exports[exportName];
+    }
+    if (isSchema(exports.default) || isSchema(exports)) {
+        return isSchema(exports) ? exports : exports.default;
+    }
+    const schemas = Object.keys(exports).filter((key) => isSchema(exports[key]));
+    if (schemas.length !== 1) {
+        throw new UsageError(
+            schemas.length
+                ? `${file} exports several schemas (${schemas.join(', ')}), pick one with --export`
+                : `${file} does not export a schema`,
+        );
+    }
+    return exports[schemas[0]];
+};
+
+const readAll = async (stream: Readable): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+async function* ndjson(stream: Readable, source: string): AsyncGenerator<Entry> {
+    let line = 0;
+    for await (const text of createInterface({ input: stream, crlfDelay: Infinity })) {
+        line++;
+        if (text.trim() === '') {
+            continue;
+        }
+        try {
+            yield { location: { source, line }, value: JSON.parse(text) };
+        } catch (e) {
+            yield { location: { source, line }, error: `Invalid JSON: ${e.message}` };
+        }
+    }
+}
+
+/** The records of a source, streaming NDJSON files line by line. */
+async function* records(file: string, format: Format, schema: Schema, io: IO): AsyncGenerator<Entry> {
+    const source = file === '-' ? 'stdin' : file;
+    const open = () => (file === '-' ? io.stdin : createReadStream(path.resolve(io.cwd, file)));
+    if (format === 'ndjson' || (format === 'auto' && /\.(ndjson|jsonl)$/.test(file))) {
+        const stream = open();
+        try {
+            yield* ndjson(stream, source);
+        } finally {
+            // closes the file when stopping early, at --max-errors
+            if (stream !== io.stdin) {
+                stream.destroy();
+            }
+        }
+        return;
+    }
+
+    const text = file === '-' ? await readAll(io.stdin) : await fs.readFile(path.resolve(io.cwd, file), 'utf8');
+    let document: unknown;
+    try {
+        document = JSON.parse(text);
+    } catch (e) {
+        if (format === 'auto' && text.trim().includes('\n')) {
+            yield* ndjson(Readable.from([text]), source);
+        } else {
+            yield { location: { source }, error: `Invalid JSON: ${e.message}` };
+        }
+        return;
+    }
+
+    const perElement = format === 'array' || (format === 'auto' && !['array', 'tuple'].includes(schema.def.type));
+    if (perElement && Array.isArray(document)) {
+        for (const [index, value] of document.entries()) {
+            yield { location: { source, index }, value };
+        }
+    } else if (format === 'array') {
+        yield { location: { source }, error: 'Expected a JSON array' };
+    } else {
+        yield { location: { source }, value: document };
+    }
+}
+
+const formatLocation = ({ source, line, index }: Failure) =>
+    line !== undefined ? `${source}:${line}` : index !== undefined ? `${source}[${index}]` : source;
+
+const formatFailure = (failure: Failure): string => {
+    const location = formatLocation(failure);
+    if (failure.error !== undefined) {
+        return `${location}: ${failure.error}\n`;
+    }
+    return (failure.issues || [])
+        .map(({ path, message }) => `${location}: ${path.length ? `${path.join('.')}: ` : ''}${message}\n`)
+        .join('');
+};
+
+/** Runs the command line with the given arguments, resolving to the exit code. */
+export const run = async (args: string[], io: IO): Promise<number> => {
+    let options: Options | undefined;
+    let schema: Schema;
+    try {
+        options = parseArgs(args);
+        if (options === undefined) {
+            io.stdout.write(`${usage}\n`);
+            return 0;
+        }
+        schema = loadSchema(options.module, options.exportName, io.cwd);
+    } catch (e) {
+        io.stderr.write(`runval: ${e.message}\n${e instanceof UsageError ? `\n${usage}\n` : ''}`);
+        return 2;
+    }
+
+    const failures: Failure[] = [];
+    let valid = 0;
+    let stopped = false;
+    try {
+        sources: for (const file of options.files.length ? options.files : ['-']) {
+            for await (const record of records(file, options.format, schema, io)) {
+                let failure: Failure | undefined;
+                if (record.error !== undefined) {
+                    failure = { ...record.location, error: record.error };
+                } else {
+                    const result = await schema.validateAsync(record.value, { abortEarly: false });
+                    if (result.success) {
+                        valid++;
+                    } else {
+                        failure = { ...record.location, issues: result.error.issues };
+                    }
+                }
+
+                if (failure) {
+                    failures.push(failure);
+                    if (options.output === 'human') {
+                        io.stdout.write(formatFailure(failure));
+                    }
+                    if (failures.length >= options.maxErrors) {
+                        stopped = true;
+                        break sources;
+                    }
+                }
+            }
+        }
+    } catch (e) {
+        io.stderr.write(`runval: ${e.message}\n`);
+        return 2;
+    }
+
+    const summary = { records: valid + failures.length, valid, invalid: failures.length, stopped };
+    if (options.output === 'json') {
+        // issues can hold values JSON cannot represent, e.g. the bigint literals of schemas
+        const json = failures.map(({ issues, ...failure }) =>
+            issues
+                ? { ...failure, issues: issues.map(({ code, path, message }) => ({ code, path, message })) }
+                : failure,
+        );
+        const document = options.summary ? { failures: json, summary } : { failures: json };
+        io.stdout.write(`${JSON.stringify(document)}\n`);
+    } else if (options.summary) {
+        const stop = stopped ? `, stopped after ${failures.length} invalid records` : '';
+        io.stdout.write(`${summary.records} records: ${valid} valid, ${failures.length} invalid${stop}\n`);
+    }
+    return failures.length ? 1 : 0;
+};
+
+if (require.main === module) {
+    run(process.argv.slice(2), {
+        stdin: process.stdin,
+        stdout: process.stdout,
+        stderr: process.stderr,
+        cwd: process.cwd(),
+    }).then((code) => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,376 @@
+import { Path } from './errors';
+import { describeValue, hasOwn } from './internal';
+import { DefOf, Literal, Schema, SchemaType } from './schema';
+
+export type ChangeKind =
+    | 'field_added'
+    | 'field_removed'
+    | 'made_required'
+    | 'made_optional'
+    | 'made_nullable'
+    | 'made_non_nullable'
+    | 'type_changed'
+    | 'values_added'
+    | 'values_removed'
+    | 'union_branch_added'
+    | 'union_branch_removed'
+    | 'tuple_length_changed'
+    | 'check_added'
+    | 'check_removed'
+    | 'check_relaxed'
+    | 'check_tightened';
+
+/** A change between two versions of a schema which makes one of them reject values the other accepts. */
+export interface SchemaChange {
+    kind: ChangeKind;
+    path: Path;
+    message: string;
+    /** Values valid against the old schema may be rejected by the new one, e.g. stored or in-flight messages. */
+    breaksBackward: boolean;
+    /** Values valid against the new schema may be rejected by the old one, e.g. by consumers not yet updated. */
+    breaksForward: boolean;
+}
+
+export interface CompatibilityReport {
+    /** The new schema accepts every value the old one accepts. */
+    backward: boolean;
+    /** The old schema accepts every value the new one accepts. */
+    forward: boolean;
+    changes: SchemaChange[];
+}
+
+/** A schema without the wrappers which only change whether it accepts undefined or null, or its output. */
+interface Unwrapped {
+    schema: Schema;
+    undefined: boolean;
+    null: boolean;
+}
+
+const unwrap = (schema: Schema): Unwrapped => {
+    const { def } = schema;
+    switch (def.type) {
+        case 'optional':
+        case 'default':
+            return { ...unwrap(def.inner), undefined: true };
+        case 'nullable':
+            return { ...unwrap(def.inner), null: true };
+        case 'readonly':
+        case 'transform':
+        case 'refinement':
+            return unwrap(def.inner);
+        case 'lazy':
+            return unwrap(def.getSchema());
+        default:
+            return { schema, undefined: def.type === 'undefined' || def.type === 'unknown', null: def.type === 'null' };
+    }
+};
+
+/** The values accepted by literal and enum schemas. */
+const valuesOf = (schema: Schema): Literal[] | undefined => {
+    const { def } = schema;
+    return def.type === 'literal' ? [def.value] : def.type === 'enum' ? def.options : undefined;
+};
+
+const primitiveTypes: Partial<Record<SchemaType, string>> = {
+    string: 'string',
+    number: 'number',
+    boolean: 'boolean',
+    bigint: 'bigint',
+};
+
+const isUnion = (schema: Schema): schema is Schema & { def: DefOf<'union'> | DefOf<'discriminatedUnion'> } =>
+    schema.def.type === 'union' || schema.def.type === 'discriminatedUnion';
+
+/** Identifies checks regardless of their message. */
+const checkKey = (check: { kind: string; value?: unknown }) =>
+    'value' in check ? `${check.kind}(${String(check.value)})` : check.kind;
+
+type Check = { kind: string; value?: unknown };
+
+interface Bound {
+    key: string;
+    value: number;
+    exclusive: boolean;
+}
+
+/** The kinds of the checks bounding values, lengths or sizes from below and from above. */
+const boundKinds = { lower: ['min', 'gt', 'positive'], upper: ['max', 'lt'] };
+
+const toBound = (check: Check): Bound => ({
+    key: checkKey(check),
+    value: check.kind === 'positive' ? 0 : (check.value as number),
+    exclusive: check.kind === 'gt' || check.kind === 'lt' || check.kind === 'positive',
+});
+
+/** Positive when `a` is a tighter bound than `b` on that side, negative when it is looser, zero when they are equal. */
+const compareBounds = (a: Bound, b: Bound, side: keyof typeof boundKinds): number =>
+    a.value !== b.value ? (a.value - b.value) * (side === 'lower' ? 1 : -1) : Number(a.exclusive) - Number(b.exclusive);
+
+/** The tightest of the bounds of a side, e.g. the greatest minimum. */
+const tightestBound = (checks: Check[], side: keyof typeof boundKinds): Bound | undefined =>
+    checks
+        .filter((check) => boundKinds[side].includes(check.kind))
+        .map(toBound)
+        .reduce<Bound | undefined>(
+            (tightest, bound) => (tightest && compareBounds(tightest, bound, side) >= 0 ? tightest : bound),
+            undefined,
+        );
+
+/**
+ * Compares two versions of a schema and reports the changes breaking either direction: values the old schema
+ * accepts and the new one rejects (backward), or the other way round (forward). Refinements, transforms and
+ * defaults are compared as the schemas they wrap, and values are assumed not to hold keys their object schema
+ * does not declare.
+ */
+export const checkCompatibility = (oldSchema: Schema, newSchema: Schema): CompatibilityReport => {
+    const changes = compare(oldSchema, newSchema, [], new Map());
+    return {
+        backward: !changes.some((change) => change.breaksBackward),
+        forward: !changes.some((change) => change.breaksForward),
+        changes,
+    };
+};
+
+/** The pairs of lazy schemas being compared, for recursive schemas to stop at the pairs compared by their parents. */
+type Seen = Map<Schema, Set<Schema>>;
+
+const compare = (oldSchema: Schema, newSchema: Schema, path: Path, seen: Seen): SchemaChange[] => {
+    if (oldSchema === newSchema) {
+        return [];
+    }
+    if (oldSchema.def.type !== 'lazy' && newSchema.def.type !== 'lazy') {
+        return compareUnwrapped(oldSchema, newSchema, path, seen);
+    }
+
+    const pairs = seen.get(oldSchema) ?? new Set();
+    if (pairs.has(newSchema)) {
+        return [];
+    }
+    seen.set(oldSchema, pairs.add(newSchema));
+    const changes = compareUnwrapped(oldSchema, newSchema, path, seen);
+    pairs.delete(newSchema);
+    return changes;
+};
+
+const compareUnwrapped = (oldSchema: Schema, newSchema: Schema, path: Path, seen: Seen): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    const report = (kind: ChangeKind, message: string, breaksBackward: boolean, breaksForward: boolean) =>
+        changes.push({ kind, path, message, breaksBackward, breaksForward });
+
+    const before = unwrap(oldSchema);
+    const after = unwrap(newSchema);
+    if (before.undefined !== after.undefined) {
+        if (before.undefined) {
+            report('made_required', 'The value became required', true, false);
+        } else {
+            report('made_optional', 'The value became optional', false, true);
+        }
+    }
+    if (before.null !== after.null) {
+        if (before.null) {
+            report('made_non_nullable', 'The value no longer accepts null', true, false);
+        } else {
+            report('made_nullable', 'The value now accepts null', false, true);
+        }
+    }
+
+    return [...changes, ...compareTypes(before.schema, after.schema, path, seen)];
+};
+
+/** Compares schemas stripped of their wrappers. */
+const compareTypes = (oldSchema: Schema, newSchema: Schema, path: Path, seen: Seen): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    const report = (kind: ChangeKind, message: string, breaksBackward: boolean, breaksForward: boolean) =>
+        changes.push({ kind, path, message, breaksBackward, breaksForward });
+
+    const before = oldSchema.def;
+    const after = newSchema.def;
+
+    if (isUnion(oldSchema) || isUnion(newSchema)) {
+        const oldBranches = isUnion(oldSchema) ? oldSchema.def.options : [oldSchema];
+        const newBranches = isUnion(newSchema) ? newSchema.def.options : [newSchema];
+        if (oldBranches.length === 1 && newBranches.length === 1) {
+            return compareTypes(oldBranches[0], newBranches[0], path, seen);
+        }
+        const breaks = (o: Schema, n: Schema, direction: 'breaksBackward' | 'breaksForward') =>
+            compare(o, n, path, seen).some((change) => change[direction]);
+
+        oldBranches.forEach((o, i) => {
+            if (newBranches.every((n) => breaks(o, n, 'breaksBackward'))) {
+                report('union_branch_removed', `Union branch ${i} (${o.def.type}) was removed`, true, false);
+            }
+        });
+        newBranches.forEach((n, i) => {
+            if (oldBranches.every((o) => breaks(o, n, 'breaksForward'))) {
+                report('union_branch_added', `Union branch ${i} (${n.def.type}) was added`, false, true);
+            }
+        });
+        return changes;
+    }
+
+    const oldValues = valuesOf(oldSchema);
+    const newValues = valuesOf(newSchema);
+    if (oldValues && newValues) {
+        const removed = oldValues.filter((value) => !newValues.includes(value));
+        const added = newValues.filter((value) => !oldValues.includes(value));
+        if (removed.length) {
+            report('values_removed', `Values ${removed.map(describeValue).join(', ')} were removed`, true, false);
+        }
+        if (added.length) {
+            report('values_added', `Values ${added.map(describeValue).join(', ')} were added`, false, true);
+        }
+        return changes;
+    }
+
+    // widening values to their type or to unknown, or narrowing them the other way round
+    const typeOf = (values: Literal[] | undefined, type: SchemaType) =>
+        values !== undefined && values.every((value) => typeof value === primitiveTypes[type]);
+    if (before.type !== after.type) {
+        if (after.type === 'unknown' || typeOf(oldValues, after.type)) {
+            report('type_changed', `The type was widened from ${before.type} to ${after.type}`, false, true);
+        } else if (before.type === 'unknown' || typeOf(newValues, before.type)) {
+            report('type_changed', `The type was narrowed from ${before.type} to ${after.type}`, true, false);
+        } else {
+            report('type_changed', `The type changed from ${before.type} to ${after.type}`, true, true);
+        }
+        return changes;
+    }
+
+    const compareChecks = (oldChecks: Check[], newChecks: Check[]) => {
+        const bounds = [...boundKinds.lower, ...boundKinds.upper];
+        const oldKeys = oldChecks.filter((check) => !bounds.includes(check.kind)).map(checkKey);
+        const newKeys = newChecks.filter((check) => !bounds.includes(check.kind)).map(checkKey);
+        const added = newKeys.filter((k) => !oldKeys.includes(k));
+        const removed = oldKeys.filter((k) => !newKeys.includes(k));
+
+        // bounds are compared by how tight they are, so that changing their value only breaks one direction
+        for (const side of ['lower', 'upper'] as const) {
+            const oldBound = tightestBound(oldChecks, side);
+            const newBound = tightestBound(newChecks, side);
+            if (oldBound && newBound) {
+                const tighter = compareBounds(newBound, oldBound, side);
+                if (tighter) {
+                    const change = tighter > 0 ? 'tightened' : 'relaxed';
+                    const message = `The check ${oldBound.key} was ${change} to ${newBound.key}`;
+                    report(tighter > 0 ? 'check_tightened' : 'check_relaxed', message, tighter > 0, tighter < 0);
+                }
+            } else if (newBound) {
+                added.push(newBound.key);
+            } else if (oldBound) {
+                removed.push(oldBound.key);
+            }
+        }
+
+        for (const key of added) {
+            report('check_added', `The check ${key} was added`, true, false);
+        }
+        for (const key of removed) {
+            report('check_removed', `The check ${key} was removed`, false, true);
+        }
+    };
+    const nested = (o: Schema, n: Schema, key: string | number) => changes.push(...compare(o, n, [...path, key], seen));
+
+    switch (before.type) {
+        case 'string':
+        case 'number':
+            compareChecks(before.checks, (after as typeof before).checks);
+            break;
+        case 'array': {
+            const def = after as typeof before;
+            compareChecks(before.checks, def.checks);
+            nested(before.element, def.element, '*');
+            break;
+        }
+        case 'set':
+            nested(before.element, (after as typeof before).element, '*');
+            break;
+        case 'record':
+        case 'map': {
+            const def = after as typeof before;
+            nested(before.key, def.key, '*key');
+            nested(before.value, def.value, '*');
+            break;
+        }
+        case 'tuple': {
+            const { items } = after as typeof before;
+            if (before.items.length !== items.length) {
+                report(
+                    'tuple_length_changed',
+                    `The tuple length changed from ${before.items.length} to ${items.length}`,
+                    true,
+                    true,
+                );
+            }
+            for (let i = 0; i < Math.min(before.items.length, items.length); i++) {
+                nested(before.items[i], items[i], i);
+            }
+            break;
+        }
+        case 'intersection': {
+            const { schemas } = after as typeof before;
+            if (before.schemas.length !== schemas.length) {
+                report('type_changed', 'The members of the intersection changed', true, true);
+            } else {
+                before.schemas.forEach((schema, i) => changes.push(...compare(schema, schemas[i], path, seen)));
+            }
+            break;
+        }
+        case 'instanceOf':
+            if (before.cls !== (after as typeof before).cls) {
+                report('type_changed', 'The class changed', true, true);
+            }
+            break;
+        case 'object':
+            changes.push(...compareObjects(before, after as typeof before, path, seen));
+            break;
+    }
+    return changes;
+};
+
+const catchallOf = ({ unknownKeys }: DefOf<'object'>): Schema | undefined =>
+    typeof unknownKeys === 'object' && 'catchall' in unknownKeys ? unknownKeys.catchall : undefined;
+
+const compareObjects = (before: DefOf<'object'>, after: DefOf<'object'>, path: Path, seen: Seen): SchemaChange[] => {
+    const changes: SchemaChange[] = [];
+    /** Whether the schema rejects or validates the keys it does not declare. */
+    const checksUnknownKeys = (def: DefOf<'object'>) => typeof def.unknownKeys === 'object';
+
+    for (const [key, schema] of Object.entries(after.shape)) {
+        if (hasOwn(before.shape, key)) {
+            changes.push(...compare(before.shape[key], schema, [...path, key], seen));
+            continue;
+        }
+        const required = !unwrap(schema).undefined;
+        if (required || checksUnknownKeys(before)) {
+            changes.push({
+                kind: 'field_added',
+                path: [...path, key],
+                message: `Field '${key}' was added${required ? ' as required' : ''}`,
+                breaksBackward: required,
+                breaksForward: checksUnknownKeys(before),
+            });
+        }
+    }
+    for (const [key, schema] of Object.entries(before.shape)) {
+        if (hasOwn(after.shape, key)) {
+            continue;
+        }
+        const required = !unwrap(schema).undefined;
+        if (required || checksUnknownKeys(after)) {
+            changes.push({
+                kind: 'field_removed',
+                path: [...path, key],
+                message: `Field '${key}' was removed`,
+                breaksBackward: checksUnknownKeys(after),
+                breaksForward: required,
+            });
+        }
+    }
+
+    const oldCatchall = catchallOf(before);
+    const newCatchall = catchallOf(after);
+    if (oldCatchall && newCatchall) {
+        changes.push(...compare(oldCatchall, newCatchall, [...path, '*'], seen));
+    }
+    return changes;
+};
@@ -0,0 +1,406 @@
+import { Issue } from './errors';
+import * as internal from './internal';
+import { DefOf, Schema } from './schema';
+
+/** Prefixes the path of the issues reported since `start` with `key`, as the interpreted validators do. */
+const prefixFrom = (issues: Issue[], start: number, key: string | number): void => {
+    issues.splice(start, issues.length - start, ...internal.prefixIssues(issues.slice(start), key));
+};
+
+const helpers = { ...internal, prefixFrom };
+
+const lines = (...code: string[]): string => code.filter((line) => line !== '').join('\n');
+
+/**
+ * Generates the source of one function per schema of the tree, taking the value to validate,
+ * the array to push the issues to (with paths relative to the schema) and the options.
+ * They return the output of the schema, which is only meaningful when no issue was pushed.
+ */
+const generate = (root: Schema) => {
+    const refs: unknown[] = [];
+    const declarations: string[] = [];
+    const names = new Map<Schema, string>();
+    let discriminators = 0;
+
+    /** An expression evaluating to `value` in the generated code. */
+    const ref = (value: unknown): string => `r[${refs.push(value) - 1}]`;
+    const str = (value: string | number): string => JSON.stringify(value);
+
+    const fn = (schema: Schema): string => {
+        let name = names.get(schema);
+        if (name === undefined) {
+            name = `v${names.size}`;
+            names.set(schema, name);
+            declarations.push(lines(`function ${name}(x, issues, options, depth, limits) {`, body(schema), '}'));
+        }
+        return name;
+    };
+
+    const invalidType = (expected: string) => `issues.push(h.invalidTypeIssue(${str(expected)}, x)); return;`;
+
+    const typeCheck = (condition: string, expected: string) => `if (!(${condition})) { ${invalidType(expected)} }`;
+
+    /** Runs the checks on the validated value, `check` being the name of the helper evaluating them. */
+    const checks = (check: string, list: unknown[], value = 'x') =>
+        lines(
+            ...list.map((c) => {
+                const issue = `h.${check}(${ref(c)}, ${value})`;
+                return `issue = ${issue}; if (issue) { issues.push(issue); if (h.shouldAbortEarly(options)) return; }`;
+            }),
+        );
+
+    /** Validates the values of the collection `x` one level deeper, checking it against the limits if there are any. */
+    const enter = lines(
+        'depth++;',
+        'if (limits) { const limit = h.checkLimits(x, limits, depth); if (limit) { issues.push(limit); return; } }',
+    );
+
+    /**
+     * Reads the values of the declared `keys` into `p0`, `p1`, ..., rejecting accessors and the keys polluting
+     * prototypes as `readOwnProperties` does.
+     */
+    const ownProperties = (shape: Record<string, Schema> | undefined, keys: string[]) =>
+        lines(
+            'const first = issues.length;',
+            'let present = 0, d;',
+            ...keys.map((key, i) =>
+                lines(
+                    `d = Object.getOwnPropertyDescriptor(x, ${str(key)});`,
+                    `if (d && (d.get || d.set)) { issues.push(h.accessorProperty(${str(
+                        key,
+                    )})); if (h.shouldAbortEarly(options)) return; }`,
+                    'else if (d && d.enumerable) { present++; }',
+                    `const p${i} = d && d.value;`,
+                ),
+            ),
+            `if (Object.keys(x).length !== present && !h.checkUndeclared(x, ${
+                shape ? ref(shape) : 'undefined'
+            }, issues, options)) { return; }`,
+            'if (issues.length !== first) { return; }',
+        );
+
+    /** Validates `input` against `schema` into `out`, prefixing its issues with `key` and running `onAbort` on failure. */
+    const child = (schema: Schema, input: string, key: string, onSuccess: string, onAbort: string) =>
+        lines(
+            `start = issues.length; out = ${fn(schema)}(${input}, issues, options, depth, limits);`,
+            `if (issues.length !== start) { h.prefixFrom(issues, start, ${key}); if (abort) ${onAbort} }`,
+            `else { ${onSuccess} }`,
+        );
+
+    const object = ({ shape, unknownKeys }: DefOf<'object'>): string => {
+        const keys = Object.keys(shape);
+        const fields = keys.map((key, i) => {
+            const property = str(key);
+            const assign = `if (out !== undefined || h.hasOwn(x, ${property})) { output[${property}] = out; }`;
+            return child(shape[key], `p${i}`, property, assign, 'return;');
+        });
+
+        let rest = '';
+        if (typeof unknownKeys === 'object') {
+            const undeclared = `const keys = Object.keys(x).filter((key) => !h.hasOwn(${ref(shape)}, key));`;
+            rest =
+                'strict' in unknownKeys
+                    ? lines(
+                          undeclared,
+                          `if (keys.length) { issues.push(h.unrecognizedKeys(keys, ${ref(unknownKeys.strict)})); }`,
+                      )
+                    : lines(
+                          undeclared,
+                          'for (const key of keys) {',
+                          child(unknownKeys.catchall, 'x[key]', 'key', 'output[key] = out;', 'break;'),
+                          '}',
+                      );
+        }
+
+        return lines(
+            `if (!h.isObjectLike(x)) { ${invalidType('object')} }`,
+            enter,
+            ownProperties(shape, keys),
+            'const abort = h.shouldAbortEarly(options);',
+            `const output = ${unknownKeys === 'passthrough' ? '{ ...x }' : '{}'};`,
+            'let start, out;',
+            ...fields,
+            rest,
+            'return output;',
+        );
+    };
+
+    const array = ({ element, checks: lengthChecks }: DefOf<'array'>): string =>
+        lines(
+            typeCheck('Array.isArray(x)', 'array'),
+            enter,
+            'const abort = h.shouldAbortEarly(options);',
+            'const first = issues.length;',
+            'const output = [];',
+            'let start, out, issue;',
+            `for (let i = 0; i < x.length; i++) { ${child(element, 'x[i]', 'i', 'output.push(out);', 'break;')} }`,
+            'if (issues.length !== first) { return; }',
+            checks('checkLength', lengthChecks, 'output.length'),
+            'return output;',
+        );
+
+    const tuple = ({ items }: DefOf<'tuple'>): string =>
+        lines(
+            typeCheck('Array.isArray(x)', 'array'),
+            enter,
+            `if (x.length !== ${items.length}) { issues.push(h.tupleLength(${items.length}, x.length)); return; }`,
+            'const abort = h.shouldAbortEarly(options);',
+            'const output = [];',
+            'let start, out;',
+            ...items.map((item, i) => child(item, `x[${i}]`, str(i), 'output.push(out);', 'return;')),
+            'return output;',
+        );
+
+    /** Validates the key and value of every entry, in the same way as the interpreted `validateEntries`. */
+    const entries = (def: DefOf<'record'> | DefOf<'map'>, pathKey: string, add: string): string =>
+        lines(
+            'const abort = h.shouldAbortEarly(options);',
+            'let i = 0;',
+            `for (const [k, v] of ${def.type === 'record' ? 'Object.entries(x)' : 'x'}) {`,
+            'const start = issues.length;',
+            `const key = ${fn(def.key)}(k, issues, options, depth, limits);`,
+            `const value = ${fn(def.value)}(v, issues, options, depth, limits);`,
+            `if (issues.length !== start) { h.prefixFrom(issues, start, ${pathKey}); if (abort) break; }`,
+            `else { ${add} }`,
+            'i++;',
+            '}',
+        );
+
+    const set = ({ element }: DefOf<'set'>): string =>
+        lines(
+            typeCheck('x instanceof Set', 'Set'),
+            enter,
+            'const abort = h.shouldAbortEarly(options);',
+            'const output = new Set();',
+            'let i = 0, start, out;',
+            `for (const value of x) { ${child(element, 'value', 'i', 'output.add(out);', 'break;')} i++; }`,
+            'return output;',
+        );
+
+    const union = ({ options }: DefOf<'union'>): string =>
+        lines(
+            'const branches = [];',
+            'const keys = limits && limits.keys;', // each branch counts the keys of `x` from the same count
+            'let branch, out;',
+            ...options.map((option) =>
+                lines(
+                    'if (limits) { limits.keys = keys; }',
+                    `branch = []; out = ${fn(option)}(x, branch, options, depth, limits);`,
+                    'if (!branch.length) { return out; }',
+                    'branches.push(branch);',
+                ),
+            ),
+            'if (limits) { limits.keys = keys; }',
+            'issues.push(h.invalidUnion(branches));',
+        );
+
+    const discriminatedUnion = ({ discriminator, options }: DefOf<'discriminatedUnion'>): string => {
+        const key = str(discriminator);
+        const branches = `d${discriminators++}`;
+        const pairs = options.map((option) => {
+            const { value } = (option.def as DefOf<'object'>).shape[discriminator].def as DefOf<'literal'>;
+            return `[${ref(value)}, ${fn(option)}]`;
+        });
+        declarations.push(`const ${branches} = new Map([${pairs.join(', ')}]);`);
+
+        return lines(
+            `if (!h.isObjectLike(x)) { ${invalidType('object')} }`,
+            `const value = h.ownValue(x, ${key});`,
+            `const branch = ${branches}.get(value);`,
+            'if (branch === undefined) {',
+            `issues.push(h.invalidUnionDiscriminator(${key}, [...${branches}.keys()], value));`,
+            'return;',
+            '}',
+            'return branch(x, issues, options, depth, limits);',
+        );
+    };
+
+    const intersection = ({ schemas }: DefOf<'intersection'>): string =>
+        lines(
+            'const branches = [];',
+            'const outputs = [];',
+            'const keys = limits && limits.keys;',
+            'let counted = keys;',
+            ...schemas.map((inner) =>
+                lines(
+                    'if (limits) { limits.keys = keys; }',
+                    `branches.push([]); outputs.push(${fn(
+                        inner,
+                    )}(x, branches[branches.length - 1], options, depth, limits));`,
+                    'if (limits) { counted = Math.max(counted, limits.keys); }',
+                ),
+            ),
+            'if (limits) { limits.keys = counted; }',
+            'if (branches.some((branch) => branch.length)) { issues.push(h.invalidIntersection(branches)); return; }',
+            'return outputs.reduce((merged, output) => h.mergeOutputs(x, merged, output), x);',
+        );
+
+    /** Validates with the interpreted validator of the schema. */
+    const interpreted = (schema: Schema): string =>
+        lines(
+            `const result = ${ref(schema)}.validate(x, limits ? h.withLimits(options, limits, depth) : options);`,
+            'if (result.success) { return result.item; }',
+            'issues.push(...result.error.issues);',
+        );
+
+    const body = (schema: Schema): string => {
+        const { def } = schema;
+        switch (def.type) {
+            case 'string':
+                return lines(
+                    typeCheck("typeof x === 'string'", 'string'),
+                    'if (limits) { const limit = h.checkStringLength(x, limits); if (limit) { issues.push(limit); return; } }',
+                    'let issue;',
+                    checks('checkString', def.checks),
+                    'return x;',
+                );
+            case 'number':
+                return lines(
+                    def.coerce ? 'x = h.toNumber(x);' : '',
+                    typeCheck("typeof x === 'number' && !Number.isNaN(x)", 'number'),
+                    'let issue;',
+                    checks('checkNumber', def.checks),
+                    'return x;',
+                );
+            case 'boolean':
+                return lines(
+                    def.coerce ? 'x = h.toBoolean(x);' : '',
+                    typeCheck("typeof x === 'boolean'", 'boolean'),
+                    'return x;',
+                );
+            case 'date':
+                return lines(def.coerce ? 'x = h.toDate(x);' : '', typeCheck('h.isValidDate(x)', 'date'), 'return x;');
+            case 'bigint':
+            case 'symbol':
+                return lines(typeCheck(`typeof x === ${str(def.type)}`, def.type), 'return x;');
+            case 'null':
+                return lines(typeCheck('x === null', 'null'), 'return x;');
+            case 'undefined':
+                return lines(typeCheck('x === undefined', 'undefined'), 'return x;');
+            case 'unknown':
+                return 'return x;';
+            case 'never':
+                return invalidType('never');
+            case 'instanceOf':
+                return lines(typeCheck(`x instanceof ${ref(def.cls)}`, def.cls.name), 'return x;');
+            case 'literal': {
+                const value = ref(def.value);
+                return lines(
+                    `if (x !== ${value}) { issues.push(h.invalidLiteral(${value}, x)); return; }`,
+                    'return x;',
+                );
+            }
+            case 'enum': {
+                const values = ref(new Set(def.options));
+                const options = ref(def.options);
+                return lines(
+                    `if (!${values}.has(x)) { issues.push(h.invalidEnumValue(${options}, x)); return; }`,
+                    'return x;',
+                );
+            }
+            case 'object':
+                return object(def);
+            case 'array':
+                return array(def);
+            case 'tuple':
+                return tuple(def);
+            case 'record':
+                return lines(
+                    `if (!h.isObjectLike(x) || Array.isArray(x)) { ${invalidType('object')} }`,
+                    enter,
+                    'if (!h.checkUndeclared(x, undefined, issues, options)) { return; }',
+                    'const output = {};',
+                    entries(def, 'k', 'output[key] = value;'),
+                    'return output;',
+                );
+            case 'map':
+                return lines(
+                    typeCheck('x instanceof Map', 'Map'),
+                    enter,
+                    'const output = new Map();',
+                    entries(def, "typeof k === 'string' || typeof k === 'number' ? k : i", 'output.set(key, value);'),
+                    'return output;',
+                );
+            case 'set':
+                return set(def);
+            case 'optional':
+                return lines(
+                    'if (x === undefined) { return x; }',
+                    `return ${fn(def.inner)}(x, issues, options, depth, limits);`,
+                );
+            case 'nullable':
+                return lines(
+                    'if (x === null) { return x; }',
+                    `return ${fn(def.inner)}(x, issues, options, depth, limits);`,
+                );
+            case 'readonly':
+                return lines(
+                    'const start = issues.length;',
+                    `const out = ${fn(def.inner)}(x, issues, options, depth, limits);`,
+                    'return issues.length === start ? Object.freeze(out) : undefined;',
+                );
+            case 'union':
+                return union(def);
+            case 'discriminatedUnion':
+                return discriminatedUnion(def);
+            case 'intersection':
+                return intersection(def);
+            case 'transform':
+                return lines(
+                    'const start = issues.length;',
+                    `const out = ${fn(def.inner)}(x, issues, options, depth, limits);`,
+                    `return issues.length === start ? ${ref(def.transform)}(out) : undefined;`,
+                );
+            case 'default':
+                return `return ${fn(def.inner)}(x === undefined ? ${ref(
+                    def.value,
+                )} : x, issues, options, depth, limits);`;
+            case 'refinement':
+                if (def.async) {
+                    return interpreted(schema); // throws, async refinements need validateAsync
+                }
+                return lines(
+                    'const start = issues.length;',
+                    `const out = ${fn(def.inner)}(x, issues, options, depth, limits);`,
+                    'if (issues.length !== start) { return; }',
+                    `const refined = h.runRefinement(${ref(def.refinement)}, out);`,
+                    'if (refined.length) { issues.push(...refined); return; }',
+                    'return out;',
+                );
+            case 'lazy':
+                return interpreted(schema); // recursive, with the detection of cyclic inputs of the interpreted validator
+            case 'function':
+                return interpreted(schema); // outputs the function wrapped by the schema
+        }
+    };
+
+    const entry = fn(root);
+    const source = lines(
+        "'use strict';",
+        ...declarations,
+        'return function validate(input, options) {',
+        'const issues = [];',
+        'const nested = h.nesting(options);',
+        `const output = ${entry}(input, issues, options, nested ? nested.depth : 0, nested && nested.limits);`,
+        'return issues.length ? h.failure(issues) : h.success(output);',
+        '};',
+    );
+
+    return { source, refs };
+};
+
+/**
+ * Generates a single validator function for the whole schema tree, returning the same results and issues
+ * as `schema.validate` without going through a closure and allocating a result per schema.
+ * Refinements, transforms and defaults call the functions they were given. Lazy schemas are validated
+ * by their interpreted validator, and so are the schemas they resolve to. `validateAsync` is left as is.
+ *
+ *     const validateUser = compile(user); // once, at startup
+ *     validateUser.validate(body);
+ */
+export const compile = <T, I>(schema: Schema<T, I>): Schema<T, I> => {
+    const { source, refs } = generate(schema);
+    const validate: Schema<T, I>['validate'] = new Function('h', 'r', source)(helpers, refs);
+
+    return { ...schema, validate };
+};
@@ -0,0 +1,239 @@
+import { readFileSync } from 'fs';
+import { ConfigError, Issue, Path } from './errors';
+import { Indexable, isObjectLike, toBoolean, toDate, toNumber } from './internal';
+import { DefOf, Infer, Schema } from './schema';
+
+/** Where config values are read from. Later sources override the values of earlier ones. */
+export type ConfigSource =
+    | { type: 'values'; values: Indexable; name?: string }
+    | { type: 'file'; path: string; optional?: boolean }
+    | { type: 'env'; env?: Record<string, string | undefined>; prefix?: string };
+
+export interface EnvOptions {
+    /** Defaults to `process.env`. */
+    env?: Record<string, string | undefined>;
+    /** Prepended to the names of the variables, e.g. `APP_`. */
+    prefix?: string;
+}
+
+/** Schemas without the wrappers which do not change the type of their input. */
+const unwrap = (schema: Schema): Schema => {
+    const { def } = schema;
+    switch (def.type) {
+        case 'optional':
+        case 'nullable':
+        case 'default':
+        case 'readonly':
+        case 'transform':
+        case 'refinement':
+            return unwrap(def.inner);
+        case 'lazy':
+            return unwrap(def.getSchema());
+        default:
+            return schema;
+    }
+};
+
+const objectDef = (schema: Schema): DefOf<'object'> | undefined => {
+    const { def } = unwrap(schema);
+    return def.type === 'object' ? def : undefined;
+};
+
+const parseJSON = (value: string): unknown => {
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+};
+
+/** Converts the string of a variable to the type the schema expects. Values which cannot be converted are kept. */
+const coerceString = (schema: Schema, value: string): unknown => {
+    const target = unwrap(schema);
+    const { def } = target;
+    switch (def.type) {
+        case 'number':
+            return toNumber(value);
+        case 'boolean':
+            return toBoolean(value);
+        case 'date':
+            return toDate(value);
+        case 'bigint':
+            try {
+                return BigInt(value.trim());
+            } catch {
+                return value;
+            }
+        case 'null':
+            return value === 'null' ? null : value;
+        case 'literal':
+        case 'enum': {
+            const values = def.type === 'literal' ? [def.value] : def.options;
+            return values.find((v) => String(v) === value) ?? value;
+        }
+        case 'array':
+        case 'tuple':
+        case 'set': {
+            if (value.trim().startsWith('[')) {
+                return parseJSON(value);
+            }
+            const items = value.split(',').map((item) => item.trim());
+            const element = (i: number) => (def.type === 'tuple' ? def.items[i] : def.element);
+            const coerced = items.map((item, i) => (element(i) ? coerceString(element(i), item) : item));
+            return def.type === 'set' ? new Set(coerced) : coerced;
+        }
+        case 'object':
+        case 'record':
+        case 'map':
+        case 'intersection':
+            return parseJSON(value);
+        case 'union':
+        case 'discriminatedUnion':
+            for (const option of def.options) {
+                const coerced = coerceString(option, value);
+                if (option.validate(coerced).success) {
+                    return coerced;
+                }
+            }
+            return value;
+        default:
+            return value;
+    }
+};
+
+/** The name of the variable of a path, e.g. `APP_DATABASE__MAX_CONNECTIONS` for `['database', 'maxConnections']`. */
+const variableName = (prefix: string, path: Path): string =>
+    prefix +
+    path
+        .map((key) =>
+            String(key)
+                .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+                .toUpperCase(),
+        )
+        .join('__');
+
+/** Reads the variables of the keys of an object schema, recording where each value comes from. */
+const readEnv = (
+    def: DefOf<'object'>,
+    env: Record<string, string | undefined>,
+    prefix: string,
+    path: Path,
+    origins: Map<string, string>,
+): Indexable => {
+    const values: Indexable = {};
+    for (const [key, schema] of Object.entries(def.shape)) {
+        const nested = objectDef(schema);
+        const name = variableName(prefix, [...path, key]);
+        if (env[name] !== undefined) {
+            values[key] = coerceString(schema, env[name] as string);
+            origins.set([...path, key].join('.'), name);
+        } else if (nested) {
+            const inner = readEnv(nested, env, prefix, [...path, key], origins);
+            // required objects are read even without variables, for each missing one to be reported by its name
+            if (Object.keys(inner).length || !schema.validate(undefined).success) {
+                values[key] = inner;
+            }
+        }
+    }
+    return values;
+};
+
+const isPlainObject = (value: unknown): value is Indexable =>
+    isObjectLike(value) && Object.getPrototypeOf(value) === Object.prototype;
+
+/** Merges plain objects key by key, other values replace each other. */
+const merge = (target: Indexable, source: Indexable, path: Path, origin: string, origins: Map<string, string>) => {
+    for (const [key, value] of Object.entries(source)) {
+        if (isPlainObject(value) && isPlainObject(target[key])) {
+            merge(target[key] as Indexable, value, [...path, key], origin, origins);
+        } else {
+            target[key] = isPlainObject(value) ? merge({}, value, [...path, key], origin, origins) : value;
+            origins.set([...path, key].join('.'), origin);
+        }
+    }
+    return target;
+};
+
+/**
+ * Loads a config from layered sources, e.g. defaults, then a JSON file, then environment variables, and validates it.
+ * Variables are named after the keys of the object schema, upper-cased with nested keys separated by `__`, and their
+ * strings are converted to the types the schema expects: numbers, booleans, dates, literals, comma-separated or JSON
+ * arrays, and JSON objects. Throws a `ConfigError` listing every missing or invalid value, and where it came from.
+ */
+export const loadConfig = <S extends Schema<any, any>>(schema: S, sources: ConfigSource[]): Infer<S> => {
+    const config: Indexable = {};
+    const origins = new Map<string, string>();
+    const issues: Issue[] = [];
+    let envPrefix: string | undefined;
+
+    for (const source of sources) {
+        switch (source.type) {
+            case 'values':
+                merge(config, source.values, [], source.name ?? 'defaults', origins);
+                break;
+            case 'file': {
+                let text: string;
+                try {
+                    text = readFileSync(source.path, 'utf8');
+                } catch (e) {
+                    if (!(source.optional && e.code === 'ENOENT')) {
+                        issues.push({ code: 'custom', path: [], message: `Cannot read ${source.path}: ${e.message}` });
+                    }
+                    break;
+                }
+                let values: unknown;
+                try {
+                    values = JSON.parse(text);
+                } catch (e) {
+                    issues.push({ code: 'custom', path: [], message: `Invalid JSON in ${source.path}: ${e.message}` });
+                    break;
+                }
+                if (isPlainObject(values)) {
+                    merge(config, values, [], source.path, origins);
+                } else {
+                    issues.push({ code: 'custom', path: [], message: `${source.path} does not hold a JSON object` });
+                }
+                break;
+            }
+            case 'env': {
+                const def = objectDef(schema);
+                if (def === undefined) {
+                    throw new Error('Environment variables are loaded with object schemas');
+                }
+                envPrefix = source.prefix ?? '';
+                const values = readEnv(def, source.env ?? process.env, envPrefix, [], origins);
+                merge(config, values, [], 'env', new Map());
+                break;
+            }
+        }
+    }
+
+    const result = schema.validate(config, { abortEarly: false });
+    if (issues.length || !result.success) {
+        issues.push(...(result.success ? [] : result.error.issues));
+        throw new ConfigError(
+            issues,
+            issues.map(({ path, message }) => {
+                let origin: string | undefined;
+                for (let i = path.length; i > 0 && origin === undefined; i--) {
+                    origin = origins.get(path.slice(0, i).join('.'));
+                }
+                // elements of arrays are set in the variable of the array
+                const index = path.findIndex((key) => typeof key === 'number');
+                const keys = index === -1 ? path : path.slice(0, index);
+                const hint =
+                    origin !== undefined
+                        ? ` (from ${origin})`
+                        : envPrefix !== undefined && keys.length
+                        ? ` (set ${variableName(envPrefix, keys)})`
+                        : '';
+                return `${path.length ? `${path.join('.')}: ` : ''}${message}${hint}`;
+            }),
+        );
+    }
+    return result.item;
+};
+
+/** Loads a config from environment variables. */
+export const loadEnv = <S extends Schema<any, any>>(schema: S, options: EnvOptions = {}): Infer<S> =>
+    loadConfig(schema, [{ type: 'env', ...options }]);
@@ -0,0 +1,198 @@
+export type Path = (string | number)[];
+
+interface IssueBase {
+    path: Path;
+    message: string;
+}
+
+export interface InvalidTypeIssue extends IssueBase {
+    code: 'invalid_type';
+    expected: string;
+    received: string;
+}
+
+export interface InvalidLiteralIssue extends IssueBase {
+    code: 'invalid_literal';
+    expected: unknown;
+    received: unknown;
+}
+
+export interface InvalidEnumValueIssue extends IssueBase {
+    code: 'invalid_enum_value';
+    options: unknown[];
+    received: unknown;
+}
+
+export interface TooShortIssue extends IssueBase {
+    code: 'too_short';
+    minimum: number;
+}
+
+export interface TooLongIssue extends IssueBase {
+    code: 'too_long';
+    maximum: number;
+}
+
+export interface TooSmallIssue extends IssueBase {
+    code: 'too_small';
+    minimum: number;
+    inclusive: boolean;
+}
+
+export interface TooBigIssue extends IssueBase {
+    code: 'too_big';
+    maximum: number;
+    inclusive: boolean;
+}
+
+export interface NotIntegerIssue extends IssueBase {
+    code: 'not_integer';
+}
+
+export interface NotFiniteIssue extends IssueBase {
+    code: 'not_finite';
+}
+
+export interface NotMultipleOfIssue extends IssueBase {
+    code: 'not_multiple_of';
+    multipleOf: number;
+}
+
+export interface InvalidStringIssue extends IssueBase {
+    code: 'invalid_string';
+    validation: 'regex' | 'email' | 'uuid' | 'url' | 'startsWith';
+}
+
+export interface UnrecognizedKeysIssue extends IssueBase {
+    code: 'unrecognized_keys';
+    keys: string[];
+}
+
+export interface CyclicReferenceIssue extends IssueBase {
+    code: 'cyclic_reference';
+}
+
+export interface CustomIssue extends IssueBase {
+    code: 'custom';
+    params?: Record<string, unknown>;
+}
+
+export interface InvalidUnionIssue extends IssueBase {
+    code: 'invalid_union';
+    branches: Issue[][]; // issues of every branch, in the order the branches were given
+}
+
+export interface InvalidUnionDiscriminatorIssue extends IssueBase {
+    code: 'invalid_union_discriminator';
+    options: unknown[];
+}
+
+export interface InvalidIntersectionIssue extends IssueBase {
+    code: 'invalid_intersection';
+    branches: Issue[][]; // empty for the branches that matched
+}
+
+/** A value exceeding one of the validation limits, see `ValidationLimits`. */
+export interface LimitExceededIssue extends IssueBase {
+    code: 'limit_exceeded';
+    limit: 'maxDepth' | 'maxArrayLength' | 'maxStringLength' | 'maxKeys';
+    maximum: number;
+}
+
+/** A key which could pollute prototypes, e.g. `__proto__`, when the object schema does not declare it. */
+export interface ForbiddenKeyIssue extends IssueBase {
+    code: 'forbidden_key';
+}
+
+/** A property defined with a getter or setter, which validation does not run. */
+export interface AccessorPropertyIssue extends IssueBase {
+    code: 'accessor_property';
+}
+
+export type Issue =
+    | InvalidTypeIssue
+    | InvalidLiteralIssue
+    | InvalidEnumValueIssue
+    | TooShortIssue
+    | TooLongIssue
+    | TooSmallIssue
+    | TooBigIssue
+    | NotIntegerIssue
+    | NotFiniteIssue
+    | NotMultipleOfIssue
+    | InvalidStringIssue
+    | UnrecognizedKeysIssue
+    | CyclicReferenceIssue
+    | CustomIssue
+    | InvalidUnionIssue
+    | InvalidUnionDiscriminatorIssue
+    | InvalidIntersectionIssue
+    | LimitExceededIssue
+    | ForbiddenKeyIssue
+    | AccessorPropertyIssue;
+
+export type IssueCode = Issue['code'];
+
+export interface FlattenedErrors {
+    formErrors: string[];
+    fieldErrors: Record<string, string[]>;
+}
+
+const formatPath = (path: Path): string => path.join('.');
+
+const formatIssues = (issues: Issue[]): string =>
+    issues
+        .map((issue) => (issue.path.length ? `${formatPath(issue.path)}: ${issue.message}` : issue.message))
+        .join('; ');
+
+export class ValidationError extends Error {
+    readonly issues: Issue[];
+
+    constructor(issues: Issue[]) {
+        super(formatIssues(issues));
+        this.name = 'ValidationError';
+        this.issues = issues;
+    }
+
+    /**
+     * Groups the messages by field, descending into union and intersection branches.
+     * Issues without a path (the validated value itself is invalid) end up in `formErrors`.
+     */
+    flatten(): FlattenedErrors {
+        const formErrors: string[] = [];
+        // without a prototype, for paths such as `constructor` or `__proto__` to be keys like any other
+        const fieldErrors: Record<string, string[]> = Object.create(null);
+
+        const add = (path: Path, message: string) => {
+            let messages = formErrors;
+            if (path.length) {
+                const key = formatPath(path);
+                messages = fieldErrors[key] = fieldErrors[key] || [];
+            }
+            if (!messages.includes(message)) {
+                messages.push(message);
+            }
+        };
+
+        const visit = (issue: Issue) => {
+            if ((issue.code === 'invalid_union' || issue.code === 'invalid_intersection') && issue.branches.length) {
+                issue.branches.forEach((branch) => branch.forEach(visit));
+            } else {
+                add(issue.path, issue.message);
+            }
+        };
+
+        this.issues.forEach(visit);
+
+        return { formErrors, fieldErrors };
+    }
+}
+
+/** Thrown by config loaders, with a message listing every missing or invalid value on its own line. */
+export class ConfigError extends ValidationError {
+    constructor(issues: Issue[], lines: string[]) {
+        super(issues);
+        this.name = 'ConfigError';
+        this.message = `Invalid config:\n${lines.map((line) => `  ${line}`).join('\n')}`;
+    }
+}
@@ -0,0 +1,500 @@
+import { Path } from './errors';
+import { checkString, hasOwn, Indexable, isObjectLike, runRefinement } from './internal';
+import { DefOf, Input, NumberCheck, Schema, StringCheck } from './schema';
+
+export interface GenerateOptions {
+    /** Generating with the same seed gives the same values. Random by default. */
+    seed?: number;
+    /** How many lazy schemas deep values may nest before collections are kept to their minimum size. Defaults to 4. */
+    maxDepth?: number;
+}
+
+/** How many candidates to try before giving up on values that must pass checks built from arbitrary code. */
+const attempts = 100;
+
+/** A deterministic pseudorandom number generator (mulberry32) returning numbers in [0, 1). */
+const prng = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = Math.imul(state ^ (state >>> 15), state | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const letters = 'abcdefghijklmnopqrstuvwxyz';
+const digits = '0123456789';
+const wordCharacters = `${letters}${letters.toUpperCase()}${digits}_`;
+/** The characters picked from for `.` and negated classes. */
+const printable = `${wordCharacters} -.,:;!?@#$%&*+=/`;
+
+/** Thrown while parsing a regex the generator does not support. */
+const unsupportedPattern = new Error('Unsupported pattern');
+
+/** Values used to replace a part of a valid value, at least one of which most schemas reject. */
+const probes: unknown[] = [undefined, null, true, 0, 0.5, -1e9, 1e9, '', 'invalid', [], {}];
+
+const accepts = (schema: Schema, obj: unknown): boolean => {
+    try {
+        return schema.validate(obj).success;
+    } catch {
+        return false; // async refinements
+    }
+};
+
+const makeGenerator = (options: GenerateOptions = {}) => {
+    const random = prng(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+    const maxDepth = options.maxDepth ?? 4;
+
+    const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+    const pick = <T>(values: T[]): T => values[int(0, values.length - 1)];
+    const chance = (p: number) => random() < p;
+    const word = (length: number) => Array.from({ length }, () => pick([...letters])).join('');
+    const hex = (length: number) => Array.from({ length }, () => int(0, 15).toString(16)).join('');
+
+    /**
+     * A generator of strings matching a regex built from characters, classes, groups, alternations and quantifiers,
+     * or undefined for regexes using other features, e.g. lookarounds or backreferences.
+     */
+    const patternGenerator = (source: string): (() => string) | undefined => {
+        let i = 0;
+
+        const escaped = (c: string): string[] => {
+            switch (c) {
+                case 'd':
+                    return [...digits];
+                case 'w':
+                    return [...wordCharacters];
+                case 's':
+                    return [' '];
+                case 'n':
+                    return ['\n'];
+                case 't':
+                    return ['\t'];
+                default:
+                    if (/[A-Za-z0-9]/.test(c)) {
+                        throw unsupportedPattern; // negated classes, word boundaries, backreferences, ...
+                    }
+                    return [c];
+            }
+        };
+
+        const characterClass = (): string[] => {
+            const negated = source[i] === '^';
+            i += negated ? 1 : 0;
+            const chars = new Set<string>();
+            while (source[i] !== ']') {
+                if (i >= source.length) {
+                    throw unsupportedPattern;
+                }
+                const c = source[i++];
+                const from = c === '\\' ? escaped(source[i++]) : [c];
+                if (source[i] === '-' && source[i + 1] !== ']' && from.length === 1) {
+                    const to = source[i + 1] === '\\' ? escaped(source[i + 2]) : [source[i + 1]];
+                    i += source[i + 1] === '\\' ? 3 : 2;
+                    for (let code = from[0].charCodeAt(0); code <= to[0].charCodeAt(0); code++) {
+                        chars.add(String.fromCharCode(code));
+                    }
+                } else {
+                    from.forEach((char) => chars.add(char));
+                }
+            }
+            i++;
+            const options = negated ? [...printable].filter((char) => !chars.has(char)) : [...chars];
+            if (!options.length) {
+                throw unsupportedPattern;
+            }
+            return options;
+        };
+
+        const atom = (): (() => string) => {
+            const c = source[i++];
+            switch (c) {
+                case '(': {
+                    if (source[i] === '?') {
+                        const named = /^\?<[A-Za-z_$][\w$]*>/.exec(source.slice(i));
+                        if (source[i + 1] !== ':' && !named) {
+                            throw unsupportedPattern; // lookarounds
+                        }
+                        i += named ? named[0].length : 2;
+                    }
+                    const group = alternatives();
+                    if (source[i++] !== ')') {
+                        throw unsupportedPattern;
+                    }
+                    return group;
+                }
+                case '[': {
+                    const chars = characterClass();
+                    return () => pick(chars);
+                }
+                case '.':
+                    return () => pick([...printable]);
+                case '^':
+                case '$':
+                    return () => '';
+                case '\\': {
+                    const chars = escaped(source[i++]);
+                    return () => pick(chars);
+                }
+                default:
+                    return () => c;
+            }
+        };
+
+        const quantified = (): (() => string) => {
+            const generate = atom();
+            let min = 1;
+            let max = 1;
+            const bounds = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+            if (source[i] === '?' || source[i] === '*' || source[i] === '+') {
+                min = source[i] === '+' ? 1 : 0;
+                max = source[i] === '?' ? 1 : min + 5;
+                i++;
+            } else if (bounds) {
+                min = Number(bounds[1]);
+                max = bounds[2] === undefined ? min : bounds[3] ? Number(bounds[3]) : min + 5;
+                i += bounds[0].length;
+            }
+            if (source[i] === '?') {
+                i++; // lazy quantifiers match the same strings
+            }
+            return () => Array.from({ length: int(min, max) }, generate).join('');
+        };
+
+        const sequence = (): (() => string) => {
+            const terms: (() => string)[] = [];
+            while (i < source.length && source[i] !== '|' && source[i] !== ')') {
+                terms.push(quantified());
+            }
+            return () => terms.map((term) => term()).join('');
+        };
+
+        const alternatives = (): (() => string) => {
+            const options = [sequence()];
+            while (source[i] === '|') {
+                i++;
+                options.push(sequence());
+            }
+            return () => pick(options)();
+        };
+
+        try {
+            const generate = alternatives();
+            return i === source.length ? generate : undefined;
+        } catch (e) {
+            if (e === unsupportedPattern) {
+                return undefined;
+            }
+            throw e;
+        }
+    };
+
+    /** A size between `min` and `max`, small ones when nested too deep. */
+    const size = (min: number, max: number | undefined, shallow: boolean) =>
+        shallow ? min : int(min, Math.min(max ?? Infinity, min + 5));
+
+    const lengthBounds = (checks: { kind: string; value?: unknown }[]) => {
+        let min = 0;
+        let max: number | undefined;
+        for (const { kind, value } of checks) {
+            if ((kind === 'min' || kind === 'length') && typeof value === 'number') {
+                min = Math.max(min, value);
+            }
+            if ((kind === 'max' || kind === 'length') && typeof value === 'number') {
+                max = Math.min(max ?? Infinity, value);
+            }
+        }
+        return { min, max };
+    };
+
+    const candidateString = (checks: StringCheck[]): string => {
+        const { min, max } = lengthBounds(checks);
+        const length = int(min, Math.min(max ?? Infinity, min + 10));
+        const prefix = checks.reduce((p, check) => (check.kind === 'startsWith' ? check.value : p), '');
+        const format = checks.find((check) => check.kind === 'email' || check.kind === 'uuid' || check.kind === 'url');
+        const fill = (base: number) => Math.max(length - base - prefix.length, 1);
+        const pattern = checks.find((check) => check.kind === 'regex');
+        const generate = pattern?.kind === 'regex' ? patternGenerator(pattern.value.source) : undefined;
+        if (generate) {
+            return generate();
+        }
+        switch (format?.kind) {
+            case 'email':
+                return `${prefix}${word(fill(12))}@example.com`;
+            case 'uuid':
+                return `${hex(8)}-${hex(4)}-4${hex(3)}-${pick(['8', '9', 'a', 'b'])}${hex(3)}-${hex(12)}`;
+            case 'url':
+                return `${prefix || 'https://'}example.com/${word(fill(prefix ? 12 : 20))}`;
+            default:
+                return prefix + word(Math.max(length - prefix.length, 0));
+        }
+    };
+
+    const stringValue = ({ checks }: DefOf<'string'>): string => {
+        for (let i = 0; i < attempts; i++) {
+            const candidate = candidateString(checks);
+            if (checks.every((check) => !checkString(check, candidate))) {
+                return candidate;
+            }
+        }
+        throw new Error('Cannot generate a string passing all of its checks');
+    };
+
+    const numberValue = ({ checks }: DefOf<'number'>): number => {
+        let min = -Infinity;
+        let max = Infinity;
+        let step = 0;
+        const exclusive = new Set<number>();
+        for (const check of checks as NumberCheck[]) {
+            switch (check.kind) {
+                case 'min':
+                    min = Math.max(min, check.value);
+                    break;
+                case 'gt':
+                case 'positive': {
+                    const value = check.kind === 'gt' ? check.value : 0;
+                    min = Math.max(min, value);
+                    exclusive.add(value);
+                    break;
+                }
+                case 'max':
+                    max = Math.min(max, check.value);
+                    break;
+                case 'lt':
+                    max = Math.min(max, check.value);
+                    exclusive.add(check.value);
+                    break;
+                case 'int':
+                    step = step || 1;
+                    break;
+                case 'multipleOf':
+                    step = check.value;
+                    break;
+            }
+        }
+        if (min === -Infinity) {
+            min = max === Infinity ? -1000 : max - 1000;
+        }
+        if (max === Infinity) {
+            max = min + 1000;
+        }
+
+        const valid = (n: number) => n >= min && n <= max && !exclusive.has(n);
+        for (let i = 0; i < attempts; i++) {
+            const candidate = step
+                ? step * int(Math.ceil(min / step), Math.floor(max / step))
+                : min + random() * (max - min);
+            if (valid(candidate) && (checks.every((check) => check.kind !== 'int') || Number.isInteger(candidate))) {
+                return candidate;
+            }
+        }
+        throw new Error('Cannot generate a number passing all of its checks');
+    };
+
+    /** A value the schema accepts as input, or undefined for keys which may be left out. */
+    const value = (schema: Schema, depth: number): unknown => {
+        const { def } = schema;
+        const shallow = depth > maxDepth;
+        switch (def.type) {
+            case 'string':
+                return stringValue(def);
+            case 'number':
+                return numberValue(def);
+            case 'boolean':
+                return chance(0.5);
+            case 'date':
+                return new Date(int(0, 4102444800) * 1000);
+            case 'bigint':
+                return BigInt(int(-1000, 1000));
+            case 'symbol':
+                return Symbol(word(4));
+            case 'null':
+                return null;
+            case 'undefined':
+                return undefined;
+            case 'unknown':
+                return pick<unknown>([null, chance(0.5), int(-1000, 1000), word(int(0, 8))]);
+            case 'never':
+                throw new Error('Cannot generate values for never schemas');
+            case 'instanceOf':
+                if (def.cls === Date) {
+                    return new Date(int(0, 4102444800) * 1000);
+                }
+                throw new Error(`Cannot generate instances of ${def.cls.name}`);
+            case 'literal':
+                return def.value;
+            case 'enum':
+                return pick(def.options);
+            case 'function': {
+                const returned = value(def.returns, depth);
+                return () => returned;
+            }
+            case 'object': {
+                const output: Indexable = {};
+                for (const [key, field] of Object.entries(def.shape)) {
+                    const item = value(field, depth);
+                    if (item !== undefined || !accepts(field, undefined)) {
+                        output[key] = item;
+                    }
+                }
+                if (typeof def.unknownKeys === 'object' && 'catchall' in def.unknownKeys) {
+                    for (let i = size(0, 3, shallow); i > 0; i--) {
+                        const key = word(8);
+                        if (!hasOwn(def.shape, key)) {
+                            output[key] = value(def.unknownKeys.catchall, depth);
+                        }
+                    }
+                }
+                return output;
+            }
+            case 'array': {
+                const { min, max } = lengthBounds(def.checks);
+                return Array.from({ length: size(min, max, shallow) }, () => value(def.element, depth));
+            }
+            case 'tuple':
+                return def.items.map((item) => value(item, depth));
+            case 'record': {
+                const output: Indexable = {};
+                for (let i = size(0, 3, shallow); i > 0; i--) {
+                    output[String(value(def.key, depth))] = value(def.value, depth);
+                }
+                return output;
+            }
+            case 'map':
+                return new Map(
+                    Array.from({ length: size(0, 3, shallow) }, () => [value(def.key, depth), value(def.value, depth)]),
+                );
+            case 'set':
+                return new Set(Array.from({ length: size(0, 3, shallow) }, () => value(def.element, depth)));
+            case 'lazy':
+                return value(def.getSchema(), depth + 1);
+            case 'optional':
+                return shallow || chance(0.25) ? undefined : value(def.inner, depth);
+            case 'nullable':
+                return shallow || chance(0.25) ? null : value(def.inner, depth);
+            case 'readonly':
+            case 'transform':
+                return value(def.inner, depth);
+            case 'default':
+                return chance(0.25) ? undefined : value(def.inner, depth);
+            case 'union':
+            case 'discriminatedUnion':
+                // the first branch is the most likely to end the recursion of recursive schemas
+                return value(shallow ? def.options[0] : pick(def.options), depth);
+            case 'intersection': {
+                const values = def.schemas.map((s) => value(s, depth));
+                return values.every((v) => isObjectLike(v) && !Array.isArray(v))
+                    ? Object.assign({}, ...values)
+                    : values[0];
+            }
+            case 'refinement': {
+                if (def.async) {
+                    throw new Error('Cannot generate values for async refinements');
+                }
+                for (let i = 0; i < attempts; i++) {
+                    const candidate = value(def.inner, depth);
+                    const result = def.inner.validate(candidate);
+                    if (result.success && !runRefinement(def.refinement, result.item).length) {
+                        return candidate;
+                    }
+                }
+                throw new Error(`Cannot generate a value passing the refinement after ${attempts} attempts`);
+            }
+        }
+    };
+
+    return { random, pick, value };
+};
+
+type Generator = ReturnType<typeof makeGenerator>;
+
+const generateValid = (generator: Generator, schema: Schema): unknown => {
+    for (let i = 0; i < attempts; i++) {
+        const candidate = generator.value(schema, 0);
+        if (accepts(schema, candidate)) {
+            return candidate;
+        }
+    }
+    throw new Error(`Cannot generate a valid value after ${attempts} attempts`);
+};
+
+/** Generates a random value `schema` accepts, e.g. as a fixture or for property-based tests. */
+export const generate = <S extends Schema>(schema: S, options?: GenerateOptions): Input<S> =>
+    generateValid(makeGenerator(options), schema) as Input<S>;
+
+/** The places where a value built by `generate` can be replaced, with the schema validating each. */
+const locations = (schema: Schema, value: unknown, path: Path = []): [Path, Schema][] => {
+    const { def } = schema;
+    const found: [Path, Schema][] = [[path, schema]];
+    switch (def.type) {
+        case 'object':
+            if (isObjectLike(value)) {
+                for (const [key, field] of Object.entries(def.shape)) {
+                    found.push(...locations(field, value[key], [...path, key]));
+                }
+            }
+            break;
+        case 'array':
+            if (Array.isArray(value)) {
+                value.forEach((item, i) => found.push(...locations(def.element, item, [...path, i])));
+            }
+            break;
+        case 'tuple':
+            if (Array.isArray(value)) {
+                def.items.forEach((item, i) => found.push(...locations(item, value[i], [...path, i])));
+            }
+            break;
+        case 'record':
+            if (isObjectLike(value)) {
+                for (const key of Object.keys(value)) {
+                    found.push(...locations(def.value, value[key], [...path, key]));
+                }
+            }
+            break;
+        case 'lazy':
+            found.push(...locations(def.getSchema(), value, path).slice(1));
+            break;
+        case 'optional':
+        case 'nullable':
+        case 'readonly':
+        case 'transform':
+        case 'default':
+        case 'refinement':
+            found.push(...locations(def.inner, value, path).slice(1));
+            break;
+    }
+    return found;
+};
+
+const replace = (root: unknown, path: Path, replacement: unknown): unknown => {
+    if (!path.length) {
+        return replacement;
+    }
+    const [key, ...rest] = path;
+    const copy = (Array.isArray(root) ? [...root] : { ...(root as Indexable) }) as Indexable;
+    copy[key as string] = replace(copy[key as string], rest, replacement);
+    return copy;
+};
+
+/**
+ * Generates a value `schema` rejects: a valid one with a single part of it, or the whole value,
+ * replaced by a value its schema rejects.
+ */
+export const generateInvalid = (schema: Schema, options?: GenerateOptions): unknown => {
+    const generator = makeGenerator(options);
+    const valid = generateValid(generator, schema);
+    const candidates = locations(schema, valid);
+    while (candidates.length) {
+        const [[path, part]] = candidates.splice(Math.floor(generator.random() * candidates.length), 1);
+        const rejected = probes.filter((probe) => !accepts(part, probe));
+        if (rejected.length) {
+            const invalid = replace(valid, path, generator.pick(rejected));
+            if (!accepts(schema, invalid)) {
+                return invalid;
+            }
+        }
+    }
+    throw new Error('Cannot generate a value the schema rejects');
+};
@@ -0,0 +1,208 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Issue, IssueCode, Path } from './errors';
+import { Infer, Schema, ValidateOptions } from './schema';
+
+/** The schemas of the parts of a request. Header names are lower case. */
+export interface RequestSchemas {
+    body?: Schema<unknown, any>;
+    query?: Schema<unknown, any>;
+    params?: Schema<unknown, any>;
+    headers?: Schema<unknown, any>;
+}
+
+export type RequestPart = keyof RequestSchemas;
+
+/** The validated parts of a request, for the parts which have a schema. */
+export type ValidatedRequest<S extends RequestSchemas> = { [K in keyof S]: Infer<S[K]> };
+
+/** Requests as handled by Node, or as already parsed by Express-like frameworks. */
+export type HttpRequest = IncomingMessage & { body?: unknown; query?: unknown; params?: unknown };
+
+export interface RequestValidationOptions extends ValidateOptions {
+    /** The maximum size of bodies in bytes, above which requests are rejected with a 413. Defaults to 1 MiB. */
+    limit?: number;
+}
+
+/** An issue of a request, with the part of the request it was found in. */
+export interface RequestIssue {
+    location: RequestPart;
+    path: Path;
+    code: IssueCode;
+    message: string;
+}
+
+/** The JSON body of the responses to invalid requests. */
+export interface RequestErrorPayload {
+    error: string;
+    issues: RequestIssue[];
+}
+
+type Parsed =
+    | { success: true; value: unknown }
+    | { success: false; status: number; error: string; issues: RequestIssue[] };
+
+const parts: RequestPart[] = ['params', 'query', 'headers', 'body'];
+
+/** Turns URL-encoded parameters into an object, with arrays for the repeated keys. */
+const decodeParams = (params: URLSearchParams): Record<string, string | string[]> => {
+    const decoded: Record<string, string | string[]> = {};
+    for (const key of new Set(params.keys())) {
+        const values = params.getAll(key);
+        // defined rather than assigned, for `__proto__` to be an own key the schemas reject
+        Object.defineProperty(decoded, key, {
+            value: values.length === 1 ? values[0] : values,
+            enumerable: true,
+            writable: true,
+            configurable: true,
+        });
+    }
+    return decoded;
+};
+
+const requestIssue = (location: RequestPart, { path, code, message }: Issue): RequestIssue => ({
+    location,
+    path,
+    code,
+    message,
+});
+
+const readBody = async (req: HttpRequest, limit: number): Promise<Parsed> => {
+    if (req.body !== undefined) {
+        return { success: true, value: req.body }; // parsed by a body parser
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size <= limit) {
+            chunks.push(chunk);
+        }
+        // keeps reading past the limit, for the client to receive the response
+    }
+    if (size > limit) {
+        return { success: false, status: 413, error: `The body is larger than ${limit} bytes`, issues: [] };
+    }
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (text === '') {
+        return { success: true, value: undefined };
+    }
+
+    const type = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (type === 'application/json' || type.endsWith('+json')) {
+        try {
+            return { success: true, value: JSON.parse(text) };
+        } catch (e) {
+            const message = `Invalid JSON: ${e.message}`;
+            const issues = [requestIssue('body', { code: 'custom', path: [], message })];
+            return { success: false, status: 400, error: 'Invalid request', issues };
+        }
+    }
+    if (type === 'application/x-www-form-urlencoded') {
+        return { success: true, value: decodeParams(new URLSearchParams(text)) };
+    }
+    if (type === '' || type.startsWith('text/')) {
+        return { success: true, value: text };
+    }
+    return { success: false, status: 415, error: `Unsupported content type ${type}`, issues: [] };
+};
+
+const readPart = (req: HttpRequest, part: RequestPart, limit: number): Promise<Parsed> | Parsed => {
+    switch (part) {
+        case 'body':
+            return readBody(req, limit);
+        case 'query':
+            return {
+                success: true,
+                value: req.query ?? decodeParams(new URL(req.url ?? '/', 'http://localhost').searchParams),
+            };
+        case 'params':
+            return { success: true, value: req.params ?? {} };
+        case 'headers':
+            return { success: true, value: req.headers };
+    }
+};
+
+/**
+ * Reads and validates the parts of a request which have a schema, reporting the issues of every part at once.
+ * Bodies are decoded from JSON or URL-encoded forms, unless a body parser already did.
+ */
+export const parseRequest = async <S extends RequestSchemas>(
+    req: HttpRequest,
+    schemas: S,
+    { limit = 1024 * 1024, ...options }: RequestValidationOptions = {},
+): Promise<{ success: true; item: ValidatedRequest<S> } | Exclude<Parsed, { success: true }>> => {
+    const validated: Partial<Record<RequestPart, unknown>> = {};
+    const issues: RequestIssue[] = [];
+    for (const part of parts) {
+        const schema = schemas[part];
+        if (schema === undefined) {
+            continue;
+        }
+        const parsed = await readPart(req, part, limit);
+        if (!parsed.success) {
+            return parsed;
+        }
+        const result = await schema.validateAsync(parsed.value, { abortEarly: false, ...options });
+        if (result.success) {
+            validated[part] = result.item;
+        } else {
+            issues.push(...result.error.issues.map((issue) => requestIssue(part, issue)));
+        }
+    }
+    if (issues.length) {
+        return { success: false, status: 400, error: 'Invalid request', issues };
+    }
+    return { success: true, item: validated as ValidatedRequest<S> };
+};
+
+const respond = (res: ServerResponse, status: number, payload: RequestErrorPayload) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(payload));
+};
+
+/**
+ * Connect/Express-style middleware validating requests, which responds to invalid ones with a 400 listing their
+ * issues. The validated values are set as `req.validated`, typed with `ValidatedRequest<typeof schemas>`.
+ */
+export const validateRequest = <S extends RequestSchemas>(schemas: S, options?: RequestValidationOptions) => (
+    req: HttpRequest & { validated?: ValidatedRequest<S> },
+    res: ServerResponse,
+    next: (error?: unknown) => void,
+): void => {
+    parseRequest(req, schemas, options).then((result) => {
+        if (result.success) {
+            req.validated = result.item;
+            next();
+        } else {
+            respond(res, result.status, { error: result.error, issues: result.issues });
+        }
+    }, next);
+};
+
+/**
+ * Wraps a `http.createServer` handler, which is only called with the validated values of valid requests.
+ * Requests failing validation get a 400, and handlers throwing or rejecting a 500.
+ */
+export const withValidation = <S extends RequestSchemas>(
+    schemas: S,
+    handler: (req: HttpRequest, res: ServerResponse, validated: ValidatedRequest<S>) => unknown,
+    options?: RequestValidationOptions,
+) => (req: HttpRequest, res: ServerResponse): void => {
+    parseRequest(req, schemas, options)
+        .then(async (result) => {
+            if (result.success) {
+                await handler(req, res, result.item);
+            } else {
+                respond(res, result.status, { error: result.error, issues: result.issues });
+            }
+        })
+        .catch(() => {
+            if (!res.headersSent) {
+                respond(res, 500, { error: 'Internal server error', issues: [] });
+            } else {
+                res.end();
+            }
+        });
+};
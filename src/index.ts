@@ -1 +1,10 @@
+export * from './errors';
 export * from './schema';
+export * from './jsonSchema';
+export * from './compile';
+export * from './generate';
+export * from './compatibility';
+export * from './typescript';
+export * from './stream';
+export * from './http';
+export * from './config';
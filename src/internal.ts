@@ -0,0 +1,490 @@
+/**
+ * Helpers shared by the interpreted validators of the schemas and the compiled ones, so that both
+ * report the same issues. Not part of the public API.
+ */
+import { CustomIssue, Issue, LimitExceededIssue, Path, ValidationError } from './errors';
+import {
+    Failure,
+    NumberCheck,
+    RefinementContext,
+    StringCheck,
+    Success,
+    ValidateOptions,
+    ValidationLimits,
+} from './schema';
+
+export const success = <T>(obj: unknown): Success<T> => ({
+    success: true,
+    item: obj as T,
+});
+
+export const failure = (issues: Issue[]): Failure => ({
+    success: false,
+    error: new ValidationError(issues),
+});
+
+export const shouldAbortEarly = (options?: ValidateOptions): boolean => options?.abortEarly !== false;
+
+export const prefixIssues = (issues: Issue[], key: string | number): Issue[] =>
+    issues.map((issue) => {
+        const path: Path = [key, ...issue.path];
+        if (issue.code === 'invalid_union' || issue.code === 'invalid_intersection') {
+            return { ...issue, path, branches: issue.branches.map((branch) => prefixIssues(branch, key)) };
+        }
+        return { ...issue, path };
+    });
+
+export const isValidDate = (obj: unknown): obj is Date => obj instanceof Date && !Number.isNaN(obj.getTime());
+
+export const describeType = (obj: unknown): string => {
+    if (obj === null) {
+        return 'null';
+    }
+    if (Number.isNaN(obj)) {
+        return 'NaN';
+    }
+    if (obj instanceof Date) {
+        return isValidDate(obj) ? 'date' : 'invalid date';
+    }
+    return Array.isArray(obj) ? 'array' : typeof obj;
+};
+
+export const describeValue = (value: unknown): string => {
+    if (typeof value === 'string') {
+        return `'${value}'`;
+    }
+    return typeof value === 'bigint' ? `${value}n` : String(value);
+};
+
+export const invalidTypeIssue = (expected: string, obj: unknown): Issue => {
+    const received = describeType(obj);
+    return { code: 'invalid_type', path: [], expected, received, message: `Expected ${expected}, but got ${received}` };
+};
+
+export const invalidType = (expected: string, obj: unknown): Failure => failure([invalidTypeIssue(expected, obj)]);
+
+export const tooShort = (minimum: number, message: string): Issue => ({
+    code: 'too_short',
+    path: [],
+    minimum,
+    message,
+});
+export const tooLong = (maximum: number, message: string): Issue => ({ code: 'too_long', path: [], maximum, message });
+
+export const tupleLength = (length: number, received: number): Issue => {
+    const message = `Expected a tuple of length ${length}, but got ${received}`;
+    return received < length ? tooShort(length, message) : tooLong(length, message);
+};
+
+export const invalidLiteral = (expected: unknown, received: unknown): Issue => ({
+    code: 'invalid_literal',
+    path: [],
+    expected,
+    received,
+    message: `Expected ${describeValue(expected)}, but got ${describeValue(received)}`,
+});
+
+export const invalidEnumValue = (options: unknown[], received: unknown): Issue => ({
+    code: 'invalid_enum_value',
+    path: [],
+    options,
+    received,
+    message: `Expected one of ${options.map(describeValue).join(', ')}, but got ${describeValue(received)}`,
+});
+
+export const unrecognizedKeys = (keys: string[], message?: string): Issue => ({
+    code: 'unrecognized_keys',
+    path: [],
+    keys,
+    message: message ?? `Unrecognized keys: ${keys.map((key) => `'${key}'`).join(', ')}`,
+});
+
+export const cyclicReference = (): Issue => ({
+    code: 'cyclic_reference',
+    path: [],
+    message: 'Value contains a reference to itself',
+});
+
+export const invalidUnion = (branches: Issue[][]): Issue => ({
+    code: 'invalid_union',
+    path: [],
+    branches,
+    message: 'Value does not match any branch of the union',
+});
+
+export const invalidUnionDiscriminator = (key: string, options: unknown[], received: unknown): Issue => ({
+    code: 'invalid_union_discriminator',
+    path: [key],
+    options,
+    message: `Unknown discriminator value ${describeValue(received)}, expected one of ${options
+        .map(describeValue)
+        .join(', ')}`,
+});
+
+export const invalidIntersection = (branches: Issue[][]): Issue => ({
+    code: 'invalid_intersection',
+    path: [],
+    branches,
+    message: 'Value does not match every branch of the intersection',
+});
+
+const refinementContext = (issues: Issue[]): RefinementContext => ({
+    addIssue: ({ message, path = [], params }) => {
+        const issue: CustomIssue = { code: 'custom', path, message };
+        if (params) {
+            issue.params = params;
+        }
+        issues.push(issue);
+    },
+});
+
+/** Runs a refinement on a validated value, returning the issues it reported. */
+export const runRefinement = <T>(refinement: (value: T, ctx: RefinementContext) => void, value: T): Issue[] => {
+    const issues: Issue[] = [];
+    refinement(value, refinementContext(issues));
+    return issues;
+};
+
+export const runAsyncRefinement = async <T>(
+    refinement: (value: T, ctx: RefinementContext) => Promise<void>,
+    value: T,
+): Promise<Issue[]> => {
+    const issues: Issue[] = [];
+    await refinement(value, refinementContext(issues));
+    return issues;
+};
+
+export type LengthCheck = { kind: 'min' | 'max' | 'length'; value: number; message: string };
+
+export const checkLength = ({ kind, value, message }: LengthCheck, length: number): Issue | undefined => {
+    if (kind !== 'max' && length < value) {
+        return tooShort(value, message);
+    }
+    return kind !== 'min' && length > value ? tooLong(value, message) : undefined;
+};
+
+export const checkNumber = (check: NumberCheck, n: number): Issue | undefined => {
+    const { message } = check;
+    switch (check.kind) {
+        case 'int':
+            return Number.isInteger(n) ? undefined : { code: 'not_integer', path: [], message };
+        case 'min':
+            return n >= check.value
+                ? undefined
+                : { code: 'too_small', path: [], minimum: check.value, inclusive: true, message };
+        case 'max':
+            return n <= check.value
+                ? undefined
+                : { code: 'too_big', path: [], maximum: check.value, inclusive: true, message };
+        case 'gt':
+            return n > check.value
+                ? undefined
+                : { code: 'too_small', path: [], minimum: check.value, inclusive: false, message };
+        case 'lt':
+            return n < check.value
+                ? undefined
+                : { code: 'too_big', path: [], maximum: check.value, inclusive: false, message };
+        case 'positive':
+            return n > 0 ? undefined : { code: 'too_small', path: [], minimum: 0, inclusive: false, message };
+        case 'finite':
+            return Number.isFinite(n) ? undefined : { code: 'not_finite', path: [], message };
+        case 'multipleOf': {
+            const ratio = n / check.value;
+            return Math.abs(ratio - Math.round(ratio)) < 1e-9
+                ? undefined
+                : { code: 'not_multiple_of', path: [], multipleOf: check.value, message };
+        }
+    }
+};
+
+export const toNumber = (obj: unknown): unknown => {
+    const converted = typeof obj === 'string' && obj.trim() !== '' ? Number(obj) : NaN;
+    return Number.isNaN(converted) ? obj : converted;
+};
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isUrl = (s: string): boolean => {
+    try {
+        new URL(s);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const matchesString = (check: Exclude<StringCheck, LengthCheck>, s: string): boolean => {
+    switch (check.kind) {
+        case 'regex':
+            check.value.lastIndex = 0; // global and sticky patterns are stateful
+            return check.value.test(s);
+        case 'startsWith':
+            return s.startsWith(check.value);
+        case 'email':
+            return emailPattern.test(s);
+        case 'uuid':
+            return uuidPattern.test(s);
+        case 'url':
+            return isUrl(s);
+    }
+};
+
+const isLengthCheck = (check: StringCheck): check is LengthCheck =>
+    check.kind === 'min' || check.kind === 'max' || check.kind === 'length';
+
+export const checkString = (check: StringCheck, s: string): Issue | undefined => {
+    if (isLengthCheck(check)) {
+        return checkLength(check, s.length);
+    }
+    return matchesString(check, s)
+        ? undefined
+        : { code: 'invalid_string', path: [], validation: check.kind, message: check.message };
+};
+
+const booleanStrings = new Map([
+    ['true', true],
+    ['1', true],
+    ['yes', true],
+    ['on', true],
+    ['false', false],
+    ['0', false],
+    ['no', false],
+    ['off', false],
+]);
+
+export const toBoolean = (obj: unknown): unknown => {
+    const key = typeof obj === 'string' || typeof obj === 'number' ? String(obj).trim().toLowerCase() : '';
+    return booleanStrings.has(key) ? booleanStrings.get(key) : obj;
+};
+
+export const toDate = (obj: unknown): unknown => {
+    const converted = typeof obj === 'string' || typeof obj === 'number' ? new Date(obj) : obj;
+    return isValidDate(converted) ? converted : obj;
+};
+
+export type Indexable = Record<string, unknown>;
+
+export const hasOwn = (obj: object, key: PropertyKey): boolean => Object.prototype.hasOwnProperty.call(obj, key);
+
+export const isObjectLike = (obj: unknown): obj is Indexable => typeof obj === 'object' && obj !== null;
+
+/**
+ * Combines the outputs of both sides of an intersection, keeping whichever side changed
+ * a value when the other one returned it as it was in the input.
+ */
+export const mergeOutputs = (input: unknown, left: unknown, right: unknown): unknown => {
+    if (left === right || right === input) {
+        return left;
+    }
+    if (left === input || !isObjectLike(left) || !isObjectLike(right)) {
+        return right;
+    }
+
+    const merged = (Array.isArray(left) ? [...left] : { ...left }) as Indexable;
+    for (const [key, val] of Object.entries(right)) {
+        merged[key] = hasOwn(left, key)
+            ? mergeOutputs(isObjectLike(input) ? input[key] : undefined, left[key], val)
+            : val;
+    }
+    return merged;
+};
+
+/** The limits without which validating deeply nested values would overflow the stack. */
+const builtinLimits: ValidationLimits = { maxDepth: 256 };
+
+let defaultLimits = builtinLimits;
+
+export const setDefaultLimits = (limits: ValidationLimits): void => {
+    defaultLimits = { ...builtinLimits, ...limits };
+};
+
+/** The limits of a validation call, with the count of the keys of its input, shared by its nested validations. */
+export interface Limits {
+    maxDepth: number;
+    maxArrayLength: number;
+    maxStringLength: number;
+    maxKeys: number;
+    keys: number;
+}
+
+/** The limits of a validation call, or undefined when there are none, for the validators to skip them. */
+export const startLimits = (options?: ValidateOptions): Limits | undefined => {
+    const { maxDepth = Infinity, maxArrayLength = Infinity, maxStringLength = Infinity, maxKeys = Infinity } = {
+        ...defaultLimits,
+        ...options?.limits,
+    };
+    const limits = { maxDepth, maxArrayLength, maxStringLength, maxKeys, keys: 0 };
+    return Math.min(maxDepth, maxArrayLength, maxStringLength, maxKeys) === Infinity ? undefined : limits;
+};
+
+/** The limits of a validation, and how many collections contain the value being validated. */
+interface Nesting {
+    limits: Limits;
+    depth: number;
+}
+
+const nestingKey = Symbol('nesting');
+
+type NestedOptions = ValidateOptions & { [nestingKey]?: Nesting };
+
+/** The limits and depth of a validation, or undefined when there are no limits. */
+export const nesting = (options?: NestedOptions): Nesting | undefined => {
+    const nested = options?.[nestingKey];
+    if (nested !== undefined) {
+        return nested;
+    }
+    const limits = startLimits(options);
+    return limits && { limits, depth: 0 };
+};
+
+/** The options for validations nested `depth` collections deep, sharing `limits`. */
+export const withLimits = (options: ValidateOptions | undefined, limits: Limits, depth: number): NestedOptions => ({
+    ...options,
+    [nestingKey]: { limits, depth },
+});
+
+/** The options to validate the values of a collection with, one level deeper, or `options` without limits. */
+export const descend = (options?: NestedOptions): NestedOptions | undefined => {
+    const nested = nesting(options);
+    return nested ? withLimits(options, nested.limits, nested.depth + 1) : options;
+};
+
+/**
+ * The options to validate a branch of a union or intersection with, which counts keys from the count so far
+ * without adding to it, for `join` to add the count of the branches that matter.
+ */
+export const fork = (options?: NestedOptions): NestedOptions | undefined => {
+    const nested = nesting(options);
+    return nested ? withLimits(options, { ...nested.limits }, nested.depth) : options;
+};
+
+/** Commits the count of keys of a branch forked from `options`. */
+export const join = (options: NestedOptions | undefined, branch: NestedOptions | undefined): void => {
+    const nested = options?.[nestingKey];
+    if (nested && branch?.[nestingKey]) {
+        nested.limits.keys = Math.max(nested.limits.keys, branch[nestingKey]!.limits.keys);
+    }
+};
+
+const limitExceeded = (limit: LimitExceededIssue['limit'], maximum: number, message: string): Issue => ({
+    code: 'limit_exceeded',
+    path: [],
+    limit,
+    maximum,
+    message,
+});
+
+/**
+ * Checks a collection `depth` collections deep against the limits. The keys of objects count towards the total
+ * of the whole input.
+ */
+export const checkLimits = (obj: object, limits: Limits, depth: number): Issue | undefined => {
+    const { maxDepth, maxArrayLength, maxKeys } = limits;
+    if (depth > maxDepth) {
+        return limitExceeded('maxDepth', maxDepth, `Exceeds the maximum depth of ${maxDepth}`);
+    }
+
+    const size = Array.isArray(obj) ? obj.length : obj instanceof Set || obj instanceof Map ? obj.size : undefined;
+    if (size !== undefined) {
+        return size > maxArrayLength
+            ? limitExceeded('maxArrayLength', maxArrayLength, `Exceeds the maximum length of ${maxArrayLength}`)
+            : undefined;
+    }
+    if (maxKeys !== Infinity) {
+        limits.keys += Object.keys(obj).length;
+        if (limits.keys > maxKeys) {
+            return limitExceeded('maxKeys', maxKeys, `Exceeds the maximum of ${maxKeys} keys in total`);
+        }
+    }
+    return undefined;
+};
+
+/** Checks a collection against the limits, with the options returned by `descend`. */
+export const checkCollection = (obj: object, options?: NestedOptions): Issue | undefined => {
+    const nested = options?.[nestingKey];
+    return nested && checkLimits(obj, nested.limits, nested.depth);
+};
+
+export const checkStringLength = (s: string, { maxStringLength }: Limits): Issue | undefined =>
+    s.length > maxStringLength
+        ? limitExceeded('maxStringLength', maxStringLength, `Exceeds the maximum length of ${maxStringLength}`)
+        : undefined;
+
+export const checkStringLimit = (s: string, options?: NestedOptions): Issue | undefined => {
+    const nested = nesting(options);
+    return nested && checkStringLength(s, nested.limits);
+};
+
+const pollutingKeys = ['__proto__', 'constructor', 'prototype'];
+
+export const accessorProperty = (key: string): Issue => ({
+    code: 'accessor_property',
+    path: [key],
+    message: 'Expected a value, but got an accessor',
+});
+
+/**
+ * Rejects the own properties of `obj` which `shape` does not declare when they are defined with accessors, which
+ * reading them would run, or could pollute prototypes. Returns false after pushing their issues.
+ */
+export const checkUndeclared = (
+    obj: object,
+    shape: object | undefined,
+    issues: Issue[],
+    options?: ValidateOptions,
+): boolean => {
+    const start = issues.length;
+    for (const key of Object.keys(obj)) {
+        if (shape && hasOwn(shape, key)) {
+            continue;
+        }
+        const descriptor = Object.getOwnPropertyDescriptor(obj, key) as PropertyDescriptor;
+        if (descriptor.get || descriptor.set) {
+            issues.push(accessorProperty(key));
+        } else if (pollutingKeys.includes(key)) {
+            issues.push({ code: 'forbidden_key', path: [key], message: `The key ${key} is not allowed` });
+        }
+        if (issues.length !== start && shouldAbortEarly(options)) {
+            break;
+        }
+    }
+    return issues.length === start;
+};
+
+/**
+ * Reads the own data properties `keys` of `obj`, which `shape` declares, as the values to validate, rejecting
+ * accessors and the undeclared keys which could pollute prototypes as `checkUndeclared` does. Returns undefined
+ * after pushing their issues. Inherited properties are read as undefined.
+ */
+export const readOwnProperties = (
+    obj: object,
+    shape: object | undefined,
+    keys: string[],
+    issues: Issue[],
+    options?: ValidateOptions,
+): unknown[] | undefined => {
+    const start = issues.length;
+    const values: unknown[] = [];
+    let present = 0;
+    for (const key of keys) {
+        const descriptor = Object.getOwnPropertyDescriptor(obj, key);
+        if (descriptor?.get || descriptor?.set) {
+            issues.push(accessorProperty(key));
+            if (shouldAbortEarly(options)) {
+                return undefined;
+            }
+        } else if (descriptor?.enumerable) {
+            present++;
+        }
+        values.push(descriptor?.value);
+    }
+    // the undeclared keys are only looked at when there are some
+    if (Object.keys(obj).length !== present && !checkUndeclared(obj, shape, issues, options)) {
+        return undefined;
+    }
+    return issues.length === start ? values : undefined;
+};
+
+/** The value of an own data property, undefined for inherited ones and accessors, which are not run. */
+export const ownValue = (obj: object, key: string): unknown => Object.getOwnPropertyDescriptor(obj, key)?.value;
@@ -0,0 +1,655 @@
+import {
+    array,
+    ArrayCheck,
+    boolean,
+    enumOf,
+    intersection,
+    lazy,
+    literal,
+    Literal,
+    never,
+    nullType,
+    number,
+    NumberCheck,
+    object,
+    optional,
+    Schema,
+    string,
+    StringCheck,
+    tuple,
+    union,
+    unknown,
+} from './schema';
+import { hasOwn, isObjectLike } from './internal';
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+export interface JSONSchema {
+    $schema?: string;
+    $id?: string;
+    $comment?: string;
+    $ref?: string;
+    $defs?: Record<string, JSONSchemaDefinition>;
+    title?: string;
+    description?: string;
+    default?: unknown;
+    examples?: unknown[];
+    type?: JSONSchemaType | JSONSchemaType[];
+    const?: unknown;
+    enum?: unknown[];
+    properties?: Record<string, JSONSchemaDefinition>;
+    required?: string[];
+    additionalProperties?: JSONSchemaDefinition;
+    propertyNames?: JSONSchemaDefinition;
+    items?: JSONSchemaDefinition;
+    prefixItems?: JSONSchemaDefinition[];
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    format?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    anyOf?: JSONSchemaDefinition[];
+    oneOf?: JSONSchemaDefinition[];
+    allOf?: JSONSchemaDefinition[];
+    not?: JSONSchemaDefinition;
+}
+
+/** A JSON Schema, where `true` accepts any value and `false` none. */
+export type JSONSchemaDefinition = JSONSchema | boolean;
+
+const draft = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Whether the schema accepts undefined, in which case its object field is not required. */
+const isOptional = (schema: Schema): boolean => {
+    const { def } = schema;
+    switch (def.type) {
+        case 'optional':
+        case 'default':
+        case 'undefined':
+        case 'unknown':
+            return true;
+        case 'literal':
+            return def.value === undefined;
+        case 'nullable':
+        case 'readonly':
+        case 'transform':
+        case 'refinement':
+            return isOptional(def.inner);
+        case 'lazy':
+            return isOptional(def.getSchema());
+        case 'union':
+        case 'discriminatedUnion':
+            return def.options.some(isOptional);
+        case 'intersection':
+            return def.schemas.every(isOptional);
+        default:
+            return false;
+    }
+};
+
+/** The schemas nested in `schema`, as they are walked by the conversion. */
+const children = (schema: Schema): Schema[] => {
+    const { def } = schema;
+    switch (def.type) {
+        case 'object':
+            return [
+                ...Object.values(def.shape),
+                ...(typeof def.unknownKeys === 'object' && 'catchall' in def.unknownKeys
+                    ? [def.unknownKeys.catchall]
+                    : []),
+            ];
+        case 'array':
+        case 'set':
+            return [def.element];
+        case 'tuple':
+            return def.items;
+        case 'record':
+        case 'map':
+            return [def.key, def.value];
+        case 'lazy':
+            return [def.getSchema()];
+        case 'optional':
+        case 'nullable':
+        case 'readonly':
+        case 'transform':
+        case 'default':
+        case 'refinement':
+            return [def.inner];
+        case 'union':
+        case 'discriminatedUnion':
+            return def.options;
+        case 'intersection':
+            return def.schemas;
+        default:
+            return [];
+    }
+};
+
+const escapeRegExp = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const fromStringChecks = (checks: StringCheck[]): JSONSchema => {
+    const out: JSONSchema = { type: 'string' };
+    const patterns: string[] = [];
+    for (const check of checks) {
+        switch (check.kind) {
+            case 'min':
+                out.minLength = check.value;
+                break;
+            case 'max':
+                out.maxLength = check.value;
+                break;
+            case 'length':
+                out.minLength = out.maxLength = check.value;
+                break;
+            case 'regex':
+                patterns.push(check.value.source);
+                break;
+            case 'startsWith':
+                patterns.push(`^${escapeRegExp(check.value)}`);
+                break;
+            case 'email':
+            case 'uuid':
+                out.format = check.kind;
+                break;
+            case 'url':
+                out.format = 'uri';
+                break;
+        }
+    }
+
+    const [pattern, ...rest] = patterns;
+    if (pattern !== undefined) {
+        out.pattern = pattern;
+    }
+    if (rest.length) {
+        out.allOf = rest.map((p) => ({ pattern: p }));
+    }
+    return out;
+};
+
+const fromNumberChecks = (checks: NumberCheck[]): JSONSchema => {
+    const out: JSONSchema = { type: checks.some((check) => check.kind === 'int') ? 'integer' : 'number' };
+    for (const check of checks) {
+        switch (check.kind) {
+            case 'min':
+                out.minimum = check.value;
+                break;
+            case 'max':
+                out.maximum = check.value;
+                break;
+            case 'gt':
+                out.exclusiveMinimum = check.value;
+                break;
+            case 'lt':
+                out.exclusiveMaximum = check.value;
+                break;
+            case 'positive':
+                out.exclusiveMinimum = 0;
+                break;
+            case 'multipleOf':
+                out.multipleOf = check.value;
+                break;
+        }
+    }
+    return out;
+};
+
+const fromArrayChecks = (checks: ArrayCheck[]): JSONSchema => {
+    const out: JSONSchema = {};
+    for (const check of checks) {
+        if (check.kind === 'min') {
+            out.minItems = check.value;
+        } else {
+            out.maxItems = check.value;
+        }
+    }
+    return out;
+};
+
+/**
+ * Converts a schema to a JSON Schema (draft 2020-12) document describing the values it accepts.
+ * Named schemas (see `Schema.named`) and schemas used more than once, including recursive ones,
+ * are emitted once in `$defs` and referenced with `$ref`.
+ *
+ * Transforms and refinements cannot be expressed and only their input schema is converted.
+ * Schemas for values which do not exist in JSON (bigint, Date, Map, ...) throw.
+ */
+export const toJSONSchema = (schema: Schema): JSONSchema => {
+    const counts = new Map<Schema, number>();
+    const count = (s: Schema) => {
+        counts.set(s, (counts.get(s) || 0) + 1);
+        if (counts.get(s) === 1) {
+            children(s).forEach(count);
+        }
+    };
+    count(schema);
+
+    const names = new Map<Schema, string>();
+    const taken = new Set<string>();
+    let generated = 0;
+    for (const [s, n] of counts) {
+        if (s.def.name === undefined && n === 1) {
+            continue;
+        }
+        const base = s.def.name ?? `Schema${++generated}`;
+        let name = base;
+        for (let i = 2; taken.has(name); i++) {
+            name = `${base}${i}`;
+        }
+        names.set(s, name);
+        taken.add(name);
+    }
+
+    const $defs: Record<string, JSONSchema> = {};
+
+    const convert = (s: Schema): JSONSchema => {
+        const name = names.get(s);
+        if (name === undefined) {
+            return convertDef(s);
+        }
+        if (!(name in $defs)) {
+            $defs[name] = {}; // placeholder, for recursive schemas to reference while being converted
+            $defs[name] = convertDef(s);
+        }
+        return { $ref: `#/$defs/${name}` };
+    };
+
+    const convertDef = (s: Schema): JSONSchema => {
+        const out = convertType(s);
+        return s.def.description === undefined ? out : { ...out, description: s.def.description };
+    };
+
+    const convertType = ({ def }: Schema): JSONSchema => {
+        switch (def.type) {
+            case 'string':
+                return fromStringChecks(def.checks);
+            case 'number':
+                return fromNumberChecks(def.checks);
+            case 'boolean':
+            case 'null':
+                return { type: def.type };
+            case 'unknown':
+                return {};
+            case 'never':
+                return { not: {} };
+            case 'literal':
+                if (def.value === undefined || typeof def.value === 'bigint') {
+                    break;
+                }
+                return { const: def.value };
+            case 'enum':
+                return { enum: def.options };
+            case 'object': {
+                const out: JSONSchema = { type: 'object', properties: {} };
+                const required: string[] = [];
+                for (const [key, value] of Object.entries(def.shape)) {
+                    out.properties![key] = convert(value);
+                    if (!isOptional(value)) {
+                        required.push(key);
+                    }
+                }
+                if (required.length) {
+                    out.required = required;
+                }
+                if (typeof def.unknownKeys === 'object') {
+                    out.additionalProperties =
+                        'catchall' in def.unknownKeys ? convert(def.unknownKeys.catchall) : false;
+                }
+                return out;
+            }
+            case 'array':
+                return { type: 'array', items: convert(def.element), ...fromArrayChecks(def.checks) };
+            case 'tuple':
+                return {
+                    type: 'array',
+                    prefixItems: def.items.map(convert),
+                    items: false,
+                    minItems: def.items.length,
+                };
+            case 'record': {
+                const out: JSONSchema = { type: 'object', additionalProperties: convert(def.value) };
+                const keys = convert(def.key);
+                if (keys.type !== 'string' || Object.keys(keys).length > 1) {
+                    out.propertyNames = keys;
+                }
+                return out;
+            }
+            case 'lazy':
+                return convert(def.getSchema());
+            case 'nullable':
+                return { anyOf: [convert(def.inner), { type: 'null' }] };
+            case 'union':
+                return { anyOf: def.options.map(convert) };
+            case 'discriminatedUnion':
+                return { oneOf: def.options.map(convert) };
+            case 'intersection':
+                return { allOf: def.schemas.map(convert) };
+            case 'optional':
+            case 'readonly':
+            case 'transform':
+            case 'refinement':
+                return convert(def.inner);
+            case 'default':
+                return { ...convert(def.inner), default: def.value };
+        }
+
+        throw new Error(`Cannot convert ${def.type} schemas to JSON Schema`);
+    };
+
+    const root = convert(schema);
+    return Object.keys($defs).length ? { $schema: draft, ...root, $defs } : { $schema: draft, ...root };
+};
+
+const annotations = ['$schema', '$id', '$comment', 'title', 'description', 'default', 'examples'];
+
+const numberKeywords = ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf'];
+
+/** The keywords applying to the values of each type. */
+const typeKeywords: Record<JSONSchemaType, string[]> = {
+    string: ['minLength', 'maxLength', 'pattern', 'format'],
+    number: numberKeywords,
+    integer: numberKeywords,
+    boolean: [],
+    null: [],
+    object: ['properties', 'required', 'additionalProperties'],
+    array: ['items', 'prefixItems', 'minItems', 'maxItems'],
+};
+
+const keywords = new Set([
+    ...annotations,
+    ...Object.values(typeKeywords).reduce((all, k) => all.concat(k), []),
+    '$ref',
+    '$defs',
+    'type',
+    'enum',
+    'const',
+    'anyOf',
+    'oneOf',
+    'allOf',
+]);
+
+const formats: Record<string, (s: ReturnType<typeof string>) => ReturnType<typeof string>> = {
+    email: (s) => s.email(),
+    uuid: (s) => s.uuid(),
+    uri: (s) => s.url(),
+};
+
+const isType = (type: unknown): type is JSONSchemaType => typeof type === 'string' && hasOwn(typeKeywords, type);
+
+const pointer = (at: string, ...segments: (string | number)[]): string =>
+    [at, ...segments.map((segment) => String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))].join('/');
+
+/** Whether `value` is of `type`, which the keywords of that type apply to. */
+const hasType = (value: unknown, type: JSONSchemaType): boolean => {
+    switch (type) {
+        case 'object':
+            return isObjectLike(value) && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return typeof value === 'number';
+        default:
+            return typeof value === type;
+    }
+};
+
+/** Whether a schema accepts every value, for `not` to reject them all, as in the `never` schemas `toJSONSchema` writes. */
+const acceptsAll = (s: JSONSchemaDefinition | undefined): boolean =>
+    s === true || (typeof s === 'object' && Object.keys(s).length === 0);
+
+const anyOf = (schemas: Schema[]): Schema =>
+    schemas.length === 1 ? schemas[0] : union(...(schemas as [Schema, Schema, ...Schema[]]));
+
+/**
+ * Builds a schema validating the values a JSON Schema (draft 2020-12) document accepts.
+ * Only local references to the root (`#`) and to its `$defs` (`#/$defs/Name`) are resolved,
+ * and the schemas of the definitions are named after them.
+ *
+ * Throws when the document uses a keyword or a format the built schema could not check,
+ * rather than accepting values the document rejects.
+ */
+export const fromJSONSchema = (doc: JSONSchemaDefinition): Schema => {
+    const unsupported = (message: string, at: string) => new Error(`${message} at ${at}`);
+    const defs = new Map<string, Schema>();
+    let root: Schema | undefined;
+
+    const ref = ($ref: string, at: string): Schema => {
+        if ($ref === '#') {
+            return lazy(() => root!);
+        }
+        const match = /^#\/\$defs\/([^/]+)$/.exec($ref);
+        const name = match && decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~');
+        if (name === null || typeof doc !== 'object' || !doc.$defs || !hasOwn(doc.$defs, name)) {
+            throw unsupported(`Cannot resolve $ref '${$ref}'`, at);
+        }
+        return lazy(() => defs.get(name)!);
+    };
+
+    const build = (s: JSONSchemaDefinition, at: string): Schema => {
+        if (typeof s === 'boolean') {
+            return s ? unknown() : never();
+        }
+
+        for (const key of Object.keys(s)) {
+            if (!keywords.has(key) && !(key === 'not' && acceptsAll(s.not))) {
+                throw unsupported(`Unsupported JSON Schema keyword '${key}'`, at);
+            }
+        }
+        if (s.$defs !== undefined && at !== '#') {
+            throw unsupported('$defs are only supported at the root of the document', at);
+        }
+
+        const parts: Schema[] = [];
+        const types = typesOf(s, at);
+        if (types.length) {
+            const typed = anyOf(types.map((type) => buildType(type, s, at)));
+            // without a type, the keywords of a type only constrain the values of that type
+            const others = unknown().refine(
+                (value) => !types.some((type) => hasType(value, type)),
+                `Expected a value matching the ${types.join(' or ')} keywords`,
+            );
+            parts.push(s.type === undefined ? union(typed, others) : typed);
+        }
+        if (s.not !== undefined) {
+            parts.push(never());
+        }
+        if (s.enum !== undefined) {
+            parts.push(buildEnum(s.enum, pointer(at, 'enum')));
+        }
+        if (hasOwn(s, 'const')) {
+            parts.push(buildLiteral(s.const, pointer(at, 'const')));
+        }
+        if (s.$ref !== undefined) {
+            parts.push(ref(s.$ref, pointer(at, '$ref')));
+        }
+        s.allOf?.forEach((sub, i) => parts.push(build(sub, pointer(at, 'allOf', i))));
+        if (s.anyOf !== undefined) {
+            parts.push(anyOf(buildAll(s.anyOf, pointer(at, 'anyOf'))));
+        }
+        if (s.oneOf !== undefined) {
+            parts.push(oneOf(buildAll(s.oneOf, pointer(at, 'oneOf'))));
+        }
+
+        const schema =
+            parts.length > 1 ? intersection(...(parts as [Schema, Schema, ...Schema[]])) : parts[0] || unknown();
+        return s.description === undefined ? schema : schema.describe(s.description);
+    };
+
+    const buildAll = (schemas: JSONSchemaDefinition[], at: string): Schema[] => {
+        if (!schemas.length) {
+            throw unsupported('Expected at least one schema', at);
+        }
+        return schemas.map((sub, i) => build(sub, pointer(at, i)));
+    };
+
+    /** The declared types, or the types the keywords apply to when none is declared. */
+    const typesOf = (s: JSONSchema, at: string): JSONSchemaType[] => {
+        if (s.type === undefined) {
+            return (['string', 'number', 'object', 'array'] as const).filter((type) =>
+                typeKeywords[type].some((key) => hasOwn(s, key)),
+            );
+        }
+
+        const types = Array.isArray(s.type) ? s.type : [s.type];
+        for (const type of types) {
+            if (!isType(type)) {
+                throw unsupported(`Unsupported type '${type}'`, pointer(at, 'type'));
+            }
+        }
+        for (const key of Object.keys(s)) {
+            const applies = Object.values(typeKeywords).some((k) => k.includes(key));
+            if (applies && !types.some((type) => typeKeywords[type].includes(key))) {
+                throw unsupported(`Keyword '${key}' does not apply to type ${types.join(' or ')}`, at);
+            }
+        }
+        return types;
+    };
+
+    const buildType = (type: JSONSchemaType, s: JSONSchema, at: string): Schema => {
+        switch (type) {
+            case 'string':
+                return buildString(s, at);
+            case 'number':
+            case 'integer':
+                return buildNumber(type, s, at);
+            case 'boolean':
+                return boolean();
+            case 'null':
+                return nullType();
+            case 'object':
+                return buildObject(s, at);
+            case 'array':
+                return buildArray(s, at);
+        }
+    };
+
+    const buildString = (s: JSONSchema, at: string): Schema => {
+        let schema = string();
+        if (s.minLength !== undefined) {
+            schema = schema.min(s.minLength);
+        }
+        if (s.maxLength !== undefined) {
+            schema = schema.max(s.maxLength);
+        }
+        if (s.pattern !== undefined) {
+            schema = schema.regex(new RegExp(s.pattern, 'u'));
+        }
+        if (s.format !== undefined) {
+            if (!hasOwn(formats, s.format)) {
+                throw unsupported(`Unsupported format '${s.format}'`, pointer(at, 'format'));
+            }
+            schema = formats[s.format](schema);
+        }
+        return schema;
+    };
+
+    const buildNumber = (type: 'number' | 'integer', s: JSONSchema, at: string): Schema => {
+        let schema = type === 'integer' ? number().int() : number();
+        for (const key of numberKeywords) {
+            const value = (s as Record<string, unknown>)[key];
+            if (value !== undefined && typeof value !== 'number') {
+                throw unsupported(`Expected '${key}' to be a number`, pointer(at, key));
+            }
+        }
+        if (s.minimum !== undefined) {
+            schema = schema.min(s.minimum);
+        }
+        if (s.maximum !== undefined) {
+            schema = schema.max(s.maximum);
+        }
+        if (s.exclusiveMinimum !== undefined) {
+            schema = schema.gt(s.exclusiveMinimum);
+        }
+        if (s.exclusiveMaximum !== undefined) {
+            schema = schema.lt(s.exclusiveMaximum);
+        }
+        if (s.multipleOf !== undefined) {
+            schema = schema.multipleOf(s.multipleOf);
+        }
+        return schema;
+    };
+
+    const buildObject = (s: JSONSchema, at: string): Schema => {
+        const required = new Set(s.required || []);
+        const shape: Record<string, Schema> = {};
+        for (const [key, value] of Object.entries(s.properties || {})) {
+            const schema = build(value, pointer(at, 'properties', key));
+            shape[key] = required.has(key) ? schema : optional(schema);
+        }
+        for (const key of required) {
+            if (!hasOwn(shape, key)) {
+                shape[key] = unknown().refine((value) => value !== undefined, 'Expected a value, but got undefined');
+            }
+        }
+
+        const schema = object(shape);
+        const additional = s.additionalProperties;
+        if (additional === undefined || additional === true) {
+            return schema;
+        }
+        return additional === false
+            ? schema.strict()
+            : schema.catchall(build(additional, pointer(at, 'additionalProperties')));
+    };
+
+    const buildArray = (s: JSONSchema, at: string): Schema => {
+        if (s.prefixItems !== undefined) {
+            const { length } = s.prefixItems;
+            if (s.items !== false || s.minItems !== length || (s.maxItems !== undefined && s.maxItems !== length)) {
+                throw unsupported(
+                    `prefixItems are only supported for tuples of a fixed length (items: false, minItems: ${length})`,
+                    at,
+                );
+            }
+            return tuple(...(buildAll(s.prefixItems, pointer(at, 'prefixItems')) as [Schema, ...Schema[]]));
+        }
+
+        let schema = array(s.items === undefined ? unknown() : build(s.items, pointer(at, 'items')));
+        if (s.minItems !== undefined) {
+            schema = schema.min(s.minItems);
+        }
+        if (s.maxItems !== undefined) {
+            schema = schema.max(s.maxItems);
+        }
+        return schema;
+    };
+
+    const buildLiteral = (value: unknown, at: string): Schema => {
+        if (value !== null && typeof value === 'object') {
+            throw unsupported('Only primitive values are supported', at);
+        }
+        return literal(value as Literal);
+    };
+
+    const buildEnum = (values: unknown[], at: string): Schema => {
+        if (!values.length) {
+            return never();
+        }
+        if (values.every((value) => typeof value === 'string' || typeof value === 'number')) {
+            return enumOf(values as [string | number, ...(string | number)[]]);
+        }
+        return anyOf(values.map((value, i) => buildLiteral(value, pointer(at, i))));
+    };
+
+    const oneOf = (schemas: Schema[]): Schema =>
+        anyOf(schemas).superRefine((value, ctx) => {
+            const matches = schemas.filter((schema) => schema.validate(value).success).length;
+            if (matches > 1) {
+                ctx.addIssue({ message: `Expected a value matching exactly one schema, but it matches ${matches}` });
+            }
+        });
+
+    if (typeof doc === 'object') {
+        for (const [name, def] of Object.entries(doc.$defs || {})) {
+            defs.set(name, build(def, pointer('#', '$defs', name)).named(name));
+        }
+    }
+    root = build(doc, '#');
+    return root;
+};
@@ -1,3 +1,44 @@
+import { Issue, Path, ValidationError } from './errors';
+import {
+    checkCollection,
+    checkLength,
+    checkNumber,
+    checkString,
+    checkStringLimit,
+    checkUndeclared,
+    cyclicReference,
+    descend,
+    describeValue,
+    failure,
+    fork,
+    hasOwn,
+    Indexable,
+    invalidEnumValue,
+    invalidIntersection,
+    invalidLiteral,
+    invalidType,
+    invalidUnion,
+    invalidUnionDiscriminator,
+    isObjectLike,
+    isValidDate,
+    join,
+    LengthCheck,
+    mergeOutputs,
+    ownValue,
+    prefixIssues,
+    readOwnProperties,
+    runAsyncRefinement,
+    runRefinement,
+    setDefaultLimits as setLimits,
+    shouldAbortEarly,
+    success,
+    toBoolean,
+    toDate,
+    toNumber,
+    tupleLength,
+    unrecognizedKeys,
+} from './internal';
+
 export interface Success<T> {
     success: true;
     item: T;
@@ -5,184 +46,1138 @@ export interface Success<T> {
 
 export interface Failure {
     success: false;
-    error: Error;
+    error: ValidationError;
 }
 
 export type ValidationResult<T> = Failure | Success<T>;
 
-type Validator<T> = (obj: unknown) => ValidationResult<T>;
+export interface ValidateOptions {
+    /**
+     * Stop at the first invalid field of an object, element of an array or member of a tuple.
+     * Set to false to collect every failure in one go. Defaults to true.
+     */
+    abortEarly?: boolean;
+    /** Overrides the default limits for this call. */
+    limits?: ValidationLimits;
+}
 
-export interface Schema<T = unknown> {
-    validate: Validator<Infer<Schema<T>>>;
+/**
+ * Bounds on the size of the validated values, to reject hostile inputs early. Values exceeding them fail with
+ * `limit_exceeded` issues. Only the depth is bounded by default. `Infinity` removes a limit.
+ */
+export interface ValidationLimits {
+    /**
+     * How deep objects, arrays and other collections may nest, the validated value being at depth 1. Defaults to 256,
+     * rejecting values nested deep enough to overflow the stack.
+     */
+    maxDepth?: number;
+    /** The maximum length of arrays and tuples, and size of sets and maps. */
+    maxArrayLength?: number;
+    maxStringLength?: number;
+    /** The maximum number of keys of all the objects and records of the value. */
+    maxKeys?: number;
 }
 
+/** Sets the limits of the validations which do not give theirs. The default `maxDepth` applies unless set. */
+export const setDefaultLimits = (limits: ValidationLimits): void => setLimits(limits);
+
+type Validator<T> = (obj: unknown, options?: ValidateOptions) => ValidationResult<T>;
+type AsyncValidator<T> = (obj: unknown, options?: ValidateOptions) => Promise<ValidationResult<T>>;
+
+/** Schemas without async parts validate asynchronously with their sync validator. */
+interface Validators<T> {
+    validate: Validator<T>;
+    validateAsync: AsyncValidator<T>;
+}
+
+/**
+ * `T` is the type of the validated (and possibly transformed) output, `I` the type accepted as input.
+ * They only differ for schemas using transforms, defaults or coercion.
+ */
+export interface Schema<T = unknown, I = T> {
+    readonly def: SchemaDef;
+    /** Throws for schemas containing async refinements, which need `validateAsync`. */
+    validate: Validator<T>;
+    /** Also runs async refinements. The members of objects, arrays and tuples are validated concurrently. */
+    validateAsync: AsyncValidator<T>;
+    /** Names the schema, e.g. to export it as a separate definition. */
+    named<S extends Schema<T, I>>(this: S, name: string): S;
+    describe<S extends Schema<T, I>>(this: S, description: string): S;
+    transform<U>(fn: (value: T) => U): Schema<U, I>;
+    /** Validates `value` in place of undefined inputs. */
+    default(value: Exclude<I, undefined>): Schema<Exclude<T, undefined>, I | undefined>;
+    /** Rejects validated values for which `check` returns false with a custom issue. */
+    refine(check: (value: T) => boolean, message?: string): Schema<T, I>;
+    /** Runs `refinement` on validated values, which may report any number of custom issues. */
+    superRefine(refinement: (value: T, ctx: RefinementContext) => void): Schema<T, I>;
+    /** Like `refine`, with a check which may return a promise, e.g. to look the value up in a database. */
+    refineAsync(check: (value: T) => Promise<boolean> | boolean, message?: string): Schema<T, I>;
+    /**
+     * Brands the validated values with the nominal type `Brand<B>`, so that values which were not validated
+     * cannot be passed where branded ones are expected. Only changes the type, not the validation.
+     */
+    brand<B extends string | symbol>(): Schema<T & Brand<B>, I>;
+    readonly _input?: I; // never set, only carries the input type
+}
+
+export interface RefinementContext {
+    addIssue(issue: { message: string; path?: Path; params?: Record<string, unknown> }): void;
+}
+
+export type Infer<T> = T extends Schema<infer U, any> ? U : never;
+export type Output<T> = Infer<T>;
+export type Input<T> = T extends Schema<any, infer I> ? I : never;
+
+/** Tells the values of a type validated by a branded schema apart, e.g. `string & Brand<'UserId'>`. */
+export type Brand<B extends string | symbol> = { readonly __brand: B };
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+type OptionalKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? K : never }[keyof T];
+/** `T` with the keys whose values may be undefined marked optional. */
+type WithOptionalKeys<T> = Flatten<
+    { [K in Exclude<keyof T, OptionalKeys<T>>]: T[K] } & { [K in OptionalKeys<T>]?: T[K] }
+>;
+
+type InferShape<T> = WithOptionalKeys<{ [K in keyof T]: Infer<T[K]> }>;
+type InputShape<T> = WithOptionalKeys<{ [K in keyof T]: Input<T[K]> }>;
+type InferItems<T> = { [K in keyof T]: Infer<T[K]> };
+type InputItems<T> = { [K in keyof T]: Input<T[K]> };
+
+/** `T` with its properties, elements or entries readonly. */
+export type ReadonlyOf<T> = T extends Map<infer K, infer V>
+    ? ReadonlyMap<K, V>
+    : T extends Set<infer E>
+    ? ReadonlySet<E>
+    : Readonly<T>;
+
 type Guard<T> = (value: unknown) => value is T;
 
-export const toGuard = <T extends Schema>(schema: T): Guard<Infer<T>> => {
-    return (obj): obj is Infer<T> => schema.validate(obj).success;
+export const toGuard = <T extends Schema>(schema: T): Guard<Input<T>> => {
+    return (obj): obj is Input<T> => schema.validate(obj).success;
+};
+
+/** Returns the output of `schema` for `value`, or throws its `ValidationError`. */
+export const parse = <T>(schema: Schema<T, any>, value: unknown, options?: ValidateOptions): T => {
+    const result = schema.validate(value, options);
+    if (!result.success) {
+        throw result.error;
+    }
+    return result.item;
+};
+
+/**
+ * Throws the `ValidationError` of `value` unless `schema` validates it, and narrows its type to the output of the
+ * schema otherwise. The value is left as is, so schemas with transforms or defaults should use `parse` instead.
+ */
+export const assert: <T>(schema: Schema<T, any>, value: unknown, options?: ValidateOptions) => asserts value is T = (
+    schema,
+    value,
+    options,
+) => {
+    parse(schema, value, options);
 };
 
-const success = <T>(obj: unknown): Success<T> => ({
-    success: true,
-    item: obj as T,
+/**
+ * Inspectable description of a schema, telling what kind of schema it is and what it is built from.
+ * Every schema exposes its own as `schema.def`.
+ */
+export type SchemaDef = (
+    | { type: 'string'; checks: StringCheck[] }
+    | { type: 'number'; checks: NumberCheck[]; coerce: boolean }
+    | { type: 'boolean'; coerce: boolean }
+    | { type: 'date'; coerce: boolean }
+    | { type: 'bigint' | 'symbol' | 'null' | 'undefined' | 'unknown' | 'never' }
+    | { type: 'instanceOf'; cls: new (...args: any[]) => unknown }
+    | { type: 'literal'; value: Literal }
+    | { type: 'enum'; options: (string | number)[] }
+    | { type: 'object'; shape: Record<string, Schema>; unknownKeys: UnknownKeys }
+    | { type: 'array'; element: Schema; checks: ArrayCheck[] }
+    | { type: 'tuple'; items: Schema[] }
+    | { type: 'record'; key: Schema; value: Schema }
+    | { type: 'map'; key: Schema; value: Schema }
+    | { type: 'set'; element: Schema }
+    | { type: 'function'; args: Schema; returns: Schema }
+    | { type: 'lazy'; getSchema: () => Schema }
+    | { type: 'optional'; inner: Schema }
+    | { type: 'nullable'; inner: Schema }
+    | { type: 'readonly'; inner: Schema }
+    | { type: 'union'; options: Schema[] }
+    | { type: 'discriminatedUnion'; discriminator: string; options: Schema[] }
+    | { type: 'intersection'; schemas: Schema[] }
+    | { type: 'transform'; inner: Schema; transform: (value: any) => unknown }
+    | { type: 'default'; inner: Schema; value: unknown }
+    | {
+          type: 'refinement';
+          inner: Schema;
+          refinement: (value: any, ctx: RefinementContext) => void | Promise<void>;
+          async: boolean;
+      }
+) & {
+    name?: string;
+    description?: string;
+};
+
+export type SchemaType = SchemaDef['type'];
+
+/** The definition of the schemas of the given type. */
+export type DefOf<K extends SchemaType> = Extract<SchemaDef, { type: K }>;
+
+export type StringCheck =
+    | LengthCheck
+    | { kind: 'regex'; value: RegExp; message: string }
+    | { kind: 'startsWith'; value: string; message: string }
+    | { kind: 'email' | 'uuid' | 'url'; message: string };
+
+export type NumberCheck =
+    | { kind: 'min' | 'max' | 'gt' | 'lt' | 'multipleOf'; value: number; message: string }
+    | { kind: 'int' | 'positive' | 'finite'; message: string };
+
+export type ArrayCheck = { kind: 'min' | 'max'; value: number; message: string };
+
+const syncValidators = <T>(validate: Validator<T>): Validators<T> => ({
+    validate,
+    validateAsync: async (obj, options) => validate(obj, options),
+});
+
+/** Validators passing the input, or `input(obj)`, to `validators` then their result to `then`. */
+const wrap = <T, U>(
+    validators: Validators<T>,
+    then: (result: ValidationResult<T>, options?: ValidateOptions) => ValidationResult<U>,
+    input: (obj: unknown) => unknown = (obj) => obj,
+): Validators<U> => ({
+    validate: (obj, options) => then(validators.validate(input(obj), options), options),
+    validateAsync: async (obj, options) => then(await validators.validateAsync(input(obj), options), options),
+});
+
+/**
+ * A validation a schema delegates to another one, with the key prefixing the path of its issues, and the options
+ * to validate with when they differ from those of the schema.
+ */
+type Task = [schema: Schema, value: unknown, key?: string | number, options?: ValidateOptions];
+
+type Results = (i: number) => ValidationResult<unknown>;
+
+/**
+ * Builds the validators of a schema validating its input with other schemas: `prepare` returns the validations
+ * to run, or the result if there is nothing to validate, and `combine` builds the result from their results.
+ * The sync validator only runs a validation when `combine` asks for its result, so that it can stop early,
+ * while the async one runs them all concurrently.
+ */
+const composite = <T>(
+    prepare: (obj: unknown, options?: ValidateOptions) => Task[] | ValidationResult<T>,
+    combine: (obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => ValidationResult<T>,
+    nests = false,
+): Validators<T> => ({
+    validate: (obj, options) => {
+        const inner = nests ? descend(options) : options;
+        const tasks = prepare(obj, inner);
+        if (!Array.isArray(tasks)) {
+            return tasks;
+        }
+        return combine(obj, tasks, (i) => tasks[i][0].validate(tasks[i][1], tasks[i][3] ?? inner), options);
+    },
+    validateAsync: async (obj, options) => {
+        const inner = nests ? descend(options) : options;
+        const tasks = prepare(obj, inner);
+        if (!Array.isArray(tasks)) {
+            return tasks;
+        }
+        const results = await Promise.all(
+            tasks.map(([schema, value, , taskOptions]) => schema.validateAsync(value, taskOptions ?? inner)),
+        );
+        return combine(obj, tasks, (i) => results[i], options);
+    },
 });
 
-const failure = (error: Error): Failure => ({
-    success: false,
-    error,
+/**
+ * Builds the validators of a collection, checked against the limits before `prepare` validates its values
+ * one level deeper.
+ */
+const collection = <T>(
+    isType: (obj: unknown) => obj is object,
+    expected: string,
+    prepare: (obj: any, options?: ValidateOptions) => Task[] | ValidationResult<T>,
+    combine: (obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => ValidationResult<T>,
+): Validators<T> =>
+    composite(
+        (obj, options) => {
+            if (!isType(obj)) {
+                return invalidType(expected, obj);
+            }
+            const issue = checkCollection(obj, options as ValidateOptions);
+            return issue ? failure([issue]) : prepare(obj, options);
+        },
+        combine,
+        true,
+    );
+
+/** Combines a single validation by returning its result. */
+const delegate = <T>(_obj: unknown, _tasks: Task[], result: Results) => result(0) as ValidationResult<T>;
+
+/**
+ * Passes the outputs of the validations from `start` to `end` to `add`, and returns the issues of the others
+ * prefixed with their key, stopping at the first one when aborting early.
+ */
+const collect = (
+    tasks: Task[],
+    result: Results,
+    options: ValidateOptions | undefined,
+    add: (item: unknown, key: string | number) => void,
+    start = 0,
+    end = tasks.length,
+): Issue[] => {
+    const issues: Issue[] = [];
+    for (let i = start; i < end; i++) {
+        const res = result(i);
+        const key = tasks[i][2] as string | number;
+        if (res.success) {
+            add(res.item, key);
+        } else {
+            issues.push(...prefixIssues(res.error.issues, key));
+            if (shouldAbortEarly(options)) {
+                break;
+            }
+        }
+    }
+    return issues;
+};
+
+const asyncRefinementError = () =>
+    new Error('The schema contains async refinements, validate it with validateAsync() instead of validate()');
+
+const makeSchema = <T, I = T>(def: SchemaDef, validators: Validator<T> | Validators<T>): Schema<T, I> => ({
+    def,
+    ...(typeof validators === 'function' ? syncValidators(validators) : validators),
+    named(name) {
+        return { ...this, def: { ...this.def, name } };
+    },
+    describe(description) {
+        return { ...this, def: { ...this.def, description } };
+    },
+    transform<U>(fn: (value: T) => U) {
+        return makeSchema<U, I>(
+            { type: 'transform', inner: this, transform: fn },
+            wrap(this, (result) => (result.success ? success(fn(result.item)) : result)),
+        );
+    },
+    default(value) {
+        return makeSchema(
+            { type: 'default', inner: this, value },
+            wrap(
+                this,
+                (result) => result as ValidationResult<Exclude<T, undefined>>,
+                (obj) => (obj === undefined ? value : obj),
+            ),
+        );
+    },
+    refine(check, message = 'Invalid value') {
+        return this.superRefine((value, ctx) => {
+            if (!check(value)) {
+                ctx.addIssue({ message });
+            }
+        });
+    },
+    superRefine(refinement) {
+        return makeSchema<T, I>(
+            { type: 'refinement', inner: this, refinement, async: false },
+            wrap(this, (result) => {
+                if (!result.success) {
+                    return result;
+                }
+
+                const issues = runRefinement(refinement, result.item);
+                return issues.length ? failure(issues) : result;
+            }),
+        );
+    },
+    refineAsync(check, message = 'Invalid value') {
+        const refinement = async (value: T, ctx: RefinementContext) => {
+            if (!(await check(value))) {
+                ctx.addIssue({ message });
+            }
+        };
+
+        return makeSchema<T, I>(
+            { type: 'refinement', inner: this, refinement, async: true },
+            {
+                validate: () => {
+                    throw asyncRefinementError();
+                },
+                validateAsync: async (obj, options) => {
+                    const result = await this.validateAsync(obj, options);
+                    if (!result.success) {
+                        return result;
+                    }
+
+                    const issues = await runAsyncRefinement(refinement, result.item);
+                    return issues.length ? failure(issues) : result;
+                },
+            },
+        );
+    },
+    brand<B extends string | symbol>() {
+        return (this as unknown) as Schema<T & Brand<B>, I>;
+    },
 });
 
-export type Infer<T> = T extends Schema<infer U>
-    ? U extends Record<string, Schema> | Schema[]
-        ? {
-              [K in keyof U]: Infer<U[K]>;
-          }
-        : U extends Record<string, Schema>[] // to handle arrays of objects. TODO: can we simplify ?
-        ? {
-              [K in keyof U]: { [P in keyof U[K]]: Infer<U[K][P]> }; // mapped type over array, then mapped type over object
-          }
-        : U // U is likely a primitive, return. TODO: check if it actually is a primitive and return never if it isn't ?
-    : never;
-
-const makeSchemaFromPrimitive = <T>(typeName: string): Schema<T> => {
-    const guard = (obj: unknown): obj is Infer<Schema<T>> => typeof obj === typeName;
-    const validate = (obj: unknown): ValidationResult<Infer<Schema<T>>> =>
-        guard(obj)
-            ? success(obj)
-            : failure(new Error(`Invalid primitive. Expected ${typeName}, but got ${typeof obj}`));
+const withChecks = <T, C>(
+    validators: Validators<T>,
+    checks: C[],
+    runCheck: (check: C, value: T) => Issue | undefined,
+): Validators<T> =>
+    wrap(validators, (result, options) => {
+        if (!result.success) {
+            return result;
+        }
+
+        const issues: Issue[] = [];
+        for (const check of checks) {
+            const issue = runCheck(check, result.item);
+            if (issue) {
+                issues.push(issue);
+                if (shouldAbortEarly(options)) {
+                    break;
+                }
+            }
+        }
+
+        return issues.length ? failure(issues) : result;
+    });
+
+const makeSchemaFromPrimitive = <T>(typeName: 'boolean' | 'bigint' | 'symbol'): Schema<T> => {
+    const guard = (obj: unknown): obj is T => typeof obj === typeName;
+    const validate = (obj: unknown): ValidationResult<T> => (guard(obj) ? success(obj) : invalidType(typeName, obj));
+
+    return makeSchema(typeName === 'boolean' ? { type: typeName, coerce: false } : { type: typeName }, validate);
+};
+
+export interface NumberSchema<I = number> extends Schema<number, I> {
+    int(message?: string): NumberSchema<I>;
+    min(minimum: number, message?: string): NumberSchema<I>;
+    max(maximum: number, message?: string): NumberSchema<I>;
+    gt(minimum: number, message?: string): NumberSchema<I>;
+    lt(maximum: number, message?: string): NumberSchema<I>;
+    positive(message?: string): NumberSchema<I>;
+    finite(message?: string): NumberSchema<I>;
+    multipleOf(step: number, message?: string): NumberSchema<I>;
+}
+
+const validateNumber = (obj: unknown): ValidationResult<number> =>
+    typeof obj === 'number' && !Number.isNaN(obj) ? success(obj) : invalidType('number', obj);
+
+const makeNumberSchema = <I>(def: DefOf<'number'>): NumberSchema<I> => {
+    const validate = def.coerce ? coerced(validateNumber, toNumber) : validateNumber;
+    const check = (c: NumberCheck) => makeNumberSchema<I>({ ...def, checks: [...def.checks, c] });
+
+    return {
+        ...makeSchema<number, I>(def, withChecks(syncValidators(validate), def.checks, checkNumber)),
+        int: (message = 'Expected an integer') => check({ kind: 'int', message }),
+        min: (value, message = `Expected a number greater than or equal to ${value}`) =>
+            check({ kind: 'min', value, message }),
+        max: (value, message = `Expected a number less than or equal to ${value}`) =>
+            check({ kind: 'max', value, message }),
+        gt: (value, message = `Expected a number greater than ${value}`) => check({ kind: 'gt', value, message }),
+        lt: (value, message = `Expected a number less than ${value}`) => check({ kind: 'lt', value, message }),
+        positive: (message = 'Expected a positive number') => check({ kind: 'positive', message }),
+        finite: (message = 'Expected a finite number') => check({ kind: 'finite', message }),
+        multipleOf: (value, message = `Expected a multiple of ${value}`) =>
+            check({ kind: 'multipleOf', value, message }),
+    };
+};
+
+export interface StringSchema extends Schema<string> {
+    min(length: number, message?: string): StringSchema;
+    max(length: number, message?: string): StringSchema;
+    length(length: number, message?: string): StringSchema;
+    regex(pattern: RegExp, message?: string): StringSchema;
+    email(message?: string): StringSchema;
+    uuid(message?: string): StringSchema;
+    url(message?: string): StringSchema;
+    startsWith(prefix: string, message?: string): StringSchema;
+}
+
+const validateString = (obj: unknown, options?: ValidateOptions): ValidationResult<string> => {
+    if (typeof obj !== 'string') {
+        return invalidType('string', obj);
+    }
+    const issue = checkStringLimit(obj, options);
+    return issue ? failure([issue]) : success(obj);
+};
+
+const makeStringSchema = (def: DefOf<'string'>): StringSchema => {
+    const check = (c: StringCheck) => makeStringSchema({ ...def, checks: [...def.checks, c] });
 
     return {
-        validate,
+        ...makeSchema(def, withChecks(syncValidators(validateString), def.checks, checkString)),
+        min: (value, message = `Expected at least ${value} characters`) => check({ kind: 'min', value, message }),
+        max: (value, message = `Expected at most ${value} characters`) => check({ kind: 'max', value, message }),
+        length: (value, message = `Expected exactly ${value} characters`) => check({ kind: 'length', value, message }),
+        regex: (value, message = `Expected a string matching ${value}`) => check({ kind: 'regex', value, message }),
+        email: (message = 'Expected an email address') => check({ kind: 'email', message }),
+        uuid: (message = 'Expected a UUID') => check({ kind: 'uuid', message }),
+        url: (message = 'Expected a URL') => check({ kind: 'url', message }),
+        startsWith: (value, message = `Expected a string starting with '${value}'`) =>
+            check({ kind: 'startsWith', value, message }),
     };
 };
-export const number = () => makeSchemaFromPrimitive<number>(typeof 0);
-export const string = () => makeSchemaFromPrimitive<string>(typeof '');
-export const boolean = () => makeSchemaFromPrimitive<boolean>(typeof false);
 
-export const tuple = <T extends [Schema, ...Schema[]]>(...schemas: T): Schema<T> => {
-    const validate = (obj: unknown): ValidationResult<Infer<Schema<T>>> => {
-        if (!Array.isArray(obj)) {
-            return failure(new Error(`Expected a tuple, got: '${typeof obj}'`));
+export const number = (): NumberSchema => makeNumberSchema({ type: 'number', checks: [], coerce: false });
+export const string = (): StringSchema => makeStringSchema({ type: 'string', checks: [] });
+export const boolean = () => makeSchemaFromPrimitive<boolean>('boolean');
+export const bigint = () => makeSchemaFromPrimitive<bigint>('bigint');
+export const symbol = () => makeSchemaFromPrimitive<symbol>('symbol');
+
+export const nullType = (): Schema<null> =>
+    makeSchema({ type: 'null' }, (obj) => (obj === null ? success(obj) : invalidType('null', obj)));
+
+export const undefinedType = (): Schema<undefined> =>
+    makeSchema({ type: 'undefined' }, (obj) => (obj === undefined ? success(obj) : invalidType('undefined', obj)));
+
+export const unknown = (): Schema<unknown> => makeSchema({ type: 'unknown' }, (obj) => success(obj));
+
+export const never = (): Schema<never> => makeSchema({ type: 'never' }, (obj) => invalidType('never', obj));
+
+const validateDate = (obj: unknown): ValidationResult<Date> =>
+    isValidDate(obj) ? success(obj) : invalidType('date', obj);
+
+/** Accepts valid `Date` instances only, `new Date('foo')` is rejected. */
+export const date = (): Schema<Date> => makeSchema({ type: 'date', coerce: false }, validateDate);
+
+export const instanceOf = <T>(cls: new (...args: any[]) => T): Schema<T> =>
+    makeSchema({ type: 'instanceOf', cls }, (obj) => (obj instanceof cls ? success(obj) : invalidType(cls.name, obj)));
+
+export type Literal = string | number | boolean | bigint | null | undefined;
+
+export interface LiteralSchema<T extends Literal> extends Schema<T> {
+    readonly value: T;
+}
+
+export const literal = <T extends Literal>(value: T): LiteralSchema<T> => ({
+    value,
+    ...makeSchema<T>({ type: 'literal', value }, (obj) =>
+        obj === value ? success(obj) : failure([invalidLiteral(value, obj)]),
+    ),
+});
+
+const makeEnumSchema = <T extends string | number>(options: T[]): Schema<T> => {
+    const values = new Set<unknown>(options);
+
+    return makeSchema({ type: 'enum', options }, (obj) =>
+        values.has(obj) ? success(obj) : failure([invalidEnumValue(options, obj)]),
+    );
+};
+
+export const enumOf = <U extends string | number, T extends readonly [U, ...U[]]>(options: T): Schema<T[number]> =>
+    makeEnumSchema([...options]);
+
+/** Accepts the values of a TypeScript enum, ignoring the reverse mappings of numeric members. */
+export const nativeEnum = <T extends Record<string, string | number>>(enumObject: T): Schema<T[keyof T]> =>
+    makeEnumSchema(
+        Object.keys(enumObject)
+            .filter((key) => typeof enumObject[enumObject[key]] !== 'number')
+            .map((key) => enumObject[key] as T[keyof T]),
+    );
+
+const coerced = <T>(validate: Validator<T>, convert: (obj: unknown) => unknown): Validator<T> => (obj, options) =>
+    validate(convert(obj), options);
+
+/**
+ * Schemas converting their input before validating it, e.g. to parse query parameters.
+ * Inputs that cannot be converted are validated as is, and rejected.
+ */
+export const coerce = {
+    number: (): NumberSchema<unknown> => makeNumberSchema({ type: 'number', checks: [], coerce: true }),
+    boolean: (): Schema<boolean, unknown> =>
+        makeSchema({ type: 'boolean', coerce: true }, coerced(boolean().validate, toBoolean)),
+    date: (): Schema<Date, unknown> => makeSchema({ type: 'date', coerce: true }, coerced(validateDate, toDate)),
+};
+
+export const tuple = <T extends [Schema, ...Schema[]]>(...schemas: T): Schema<InferItems<T>, InputItems<T>> => {
+    const prepare = (obj: unknown[]): Task[] | Failure => {
+        if (obj.length !== schemas.length) {
+            return failure([tupleLength(schemas.length, obj.length)]);
         }
+        return schemas.map((schema, i): Task => [schema, obj[i], i]);
+    };
+
+    const combine = (_obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => {
+        const output: unknown[] = [];
+        const issues = collect(tasks, result, options, (item) => output.push(item));
+        return issues.length ? failure(issues) : success<InferItems<T>>(output);
+    };
+
+    return makeSchema({ type: 'tuple', items: schemas }, collection(Array.isArray, 'array', prepare, combine));
+};
+
+type Args<T> = T extends unknown[] ? T : never;
+
+export interface FunctionSchema<A extends Schema<unknown[], unknown[]>, R extends Schema>
+    extends Schema<(...args: Args<Input<A>>) => Infer<R>, (...args: Args<Infer<A>>) => Input<R>> {
+    readonly args: A;
+    readonly returns: R;
+    /**
+     * Wraps `impl` to validate its arguments before calling it, and its return value, awaiting promises.
+     * Both throw a `ValidationError`, with issue paths starting with `arguments` or `returns`. When `impl` is an
+     * async function, the returned promise rejects with it instead.
+     */
+    implement(impl: (...args: Args<Infer<A>>) => Promise<Input<R>>): (...args: Args<Input<A>>) => Promise<Infer<R>>;
+    implement(impl: (...args: Args<Infer<A>>) => Input<R>): (...args: Args<Input<A>>) => Infer<R>;
+}
 
-        if (schemas.length !== obj.length) {
-            return failure(new Error(`Tuple does not have expected length ${schemas.length}, got: '${obj.length}'`));
+const isPromiseLike = (obj: unknown): obj is PromiseLike<unknown> =>
+    isObjectLike(obj) && typeof (obj as Partial<PromiseLike<unknown>>).then === 'function';
+
+/**
+ * Functions taking the arguments validated by `args`, usually a tuple, and returning values validated by `returns`.
+ * Validating a function outputs it implemented, as does `implement`.
+ */
+export const fn = <A extends Schema<unknown[], unknown[]>, R extends Schema<unknown, any>>(
+    args: A,
+    returns: R,
+): FunctionSchema<A, R> => {
+    const { def } = args;
+    const checked = (result: ValidationResult<unknown>, key: string) => {
+        if (!result.success) {
+            throw new ValidationError(prefixIssues(result.error.issues, key));
         }
+        return result.item;
+    };
 
-        for (const i of Array(schemas.length).keys()) {
-            const result = schemas[i].validate(obj[i]);
-            if (!result.success) {
-                return failure(result.error);
-            }
+    const call = (impl: (...args: any[]) => unknown) =>
+        function (this: unknown, ...values: unknown[]) {
+            // omitted trailing arguments are undefined, for optional tuple items
+            const arity = def.type === 'tuple' ? def.items.length : 0;
+            const padded = values.length < arity ? [...values, ...new Array(arity - values.length)] : values;
+            const parsed = checked(args.validate(padded, { abortEarly: false }), 'arguments') as unknown[];
+            const result = impl.apply(this, parsed);
+            return isPromiseLike(result)
+                ? Promise.resolve(result).then(async (value) =>
+                      checked(await returns.validateAsync(value, { abortEarly: false }), 'returns'),
+                  )
+                : checked(returns.validate(result, { abortEarly: false }), 'returns');
+        };
+
+    const implement = (impl: (...args: any[]) => unknown) => {
+        const wrapped = call(impl);
+        if (Object.prototype.toString.call(impl) !== '[object AsyncFunction]') {
+            return wrapped;
         }
+        // async functions reject with the errors of their arguments rather than throwing them
+        return function (this: unknown, ...values: unknown[]) {
+            return new Promise((resolve) => resolve(wrapped.apply(this, values)));
+        };
+    };
+
+    return {
+        ...makeSchema<(...args: Args<Input<A>>) => Infer<R>, (...args: Args<Infer<A>>) => Input<R>>(
+            { type: 'function', args, returns },
+            (obj) =>
+                typeof obj === 'function'
+                    ? success(implement(obj as (...args: any[]) => unknown))
+                    : invalidType('function', obj),
+        ),
+        args,
+        returns,
+        implement: (implement as unknown) as FunctionSchema<A, R>['implement'],
+    };
+};
+
+export interface ArraySchema<T, I = T> extends Schema<T[], I[]> {
+    min(length: number, message?: string): ArraySchema<T, I>;
+    max(length: number, message?: string): ArraySchema<T, I>;
+    nonEmpty(message?: string): Schema<NonEmpty<T>, NonEmpty<I>>;
+}
+
+type NonEmpty<T> = [T, ...T[]];
 
-        return success(obj);
+const makeArraySchema = <T, I>(def: DefOf<'array'>): ArraySchema<T, I> => {
+    const prepare = (obj: unknown[]): Task[] => Array.from(obj, (val, i): Task => [def.element, val, i]);
+
+    const combine = (_obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => {
+        const output: T[] = [];
+        const issues = collect(tasks, result, options, (item) => output.push(item as T));
+        return issues.length ? failure(issues) : success<T[]>(output);
     };
+    const check = (c: ArrayCheck) => makeArraySchema<T, I>({ ...def, checks: [...def.checks, c] });
 
     return {
-        validate,
+        ...makeSchema<T[], I[]>(
+            def,
+            withChecks(collection<T[]>(Array.isArray, 'array', prepare, combine), def.checks, (c, a) =>
+                checkLength(c, a.length),
+            ),
+        ),
+        min: (value, message = `Expected at least ${value} elements`) => check({ kind: 'min', value, message }),
+        max: (value, message = `Expected at most ${value} elements`) => check({ kind: 'max', value, message }),
+        nonEmpty: (message = 'Expected a non-empty array') =>
+            (check({ kind: 'min', value: 1, message }) as unknown) as Schema<NonEmpty<T>, NonEmpty<I>>,
     };
 };
 
-export const array = <T>(schema: Schema<T>): Schema<T[]> => {
-    const validate = (obj: unknown): ValidationResult<Infer<Schema<T[]>>> => {
-        if (!Array.isArray(obj)) {
-            return failure(new Error(`Expected an array, got: '${typeof obj}'`));
+export const array = <T, I>(schema: Schema<T, I>): ArraySchema<T, I> =>
+    makeArraySchema({ type: 'array', element: schema, checks: [] });
+
+/**
+ * What to do with the keys of the input which are not part of the object schema:
+ * keep them as is, leave them out of the output, reject them, or validate them against a schema.
+ */
+export type UnknownKeys = 'passthrough' | 'strip' | { strict: string | undefined } | { catchall: Schema };
+
+/** The keys of an object schema to pick or omit, e.g. `{ id: true }`. */
+export type Mask<T> = { [K in keyof T]?: true };
+
+/** The shape `T` with the schemas of `U` added, replacing those of the same keys. */
+export type ExtendShape<T, U> = {
+    [K in keyof T | keyof U]: K extends keyof U ? U[K] : K extends keyof T ? T[K] : never;
+};
+
+type PartialShape<T> = { [K in keyof T]: T[K] extends OptionalSchema<Schema> ? T[K] : OptionalSchema<T[K] & Schema> };
+type RequiredShape<T> = { [K in keyof T]: T[K] extends OptionalSchema<infer S> ? S : T[K] };
+type DeepPartialShape<T> = {
+    [K in keyof T]: T[K] extends OptionalSchema<infer S>
+        ? OptionalSchema<DeepPartial<S>>
+        : OptionalSchema<DeepPartial<T[K] & Schema>>;
+};
+type DeepPartial<S extends Schema> = S extends ObjectSchema<infer T> ? ObjectSchema<DeepPartialShape<T>> : S;
+
+export interface ObjectSchema<T extends Record<string, Schema>> extends Schema<InferShape<T>, InputShape<T>> {
+    readonly shape: T;
+    /** Keeps undeclared keys in the output, without validating them. This is the default. */
+    passthrough(): ObjectSchema<T>;
+    /** Leaves undeclared keys out of the output. */
+    strip(): ObjectSchema<T>;
+    /** Rejects objects with undeclared keys. */
+    strict(message?: string): ObjectSchema<T>;
+    /** Validates the value of every undeclared key against `schema`. */
+    catchall(schema: Schema): ObjectSchema<T>;
+    /** Adds the keys of `shape`, replacing the schemas of existing ones. */
+    extend<U extends Record<string, Schema>>(shape: U): ObjectSchema<ExtendShape<T, U>>;
+    /** Adds the keys of `other`, whose handling of unknown keys replaces this one. */
+    merge<U extends Record<string, Schema>>(other: ObjectSchema<U>): ObjectSchema<ExtendShape<T, U>>;
+    pick<M extends Mask<T>>(mask: M): ObjectSchema<Pick<T, Extract<keyof T, keyof M>>>;
+    omit<M extends Mask<T>>(mask: M): ObjectSchema<Omit<T, keyof M>>;
+    /** Makes every key optional. */
+    partial(): ObjectSchema<PartialShape<T>>;
+    /** Makes every key optional, and so do the nested object schemas. */
+    deepPartial(): ObjectSchema<DeepPartialShape<T>>;
+    /** Makes the optional keys required. */
+    required(): ObjectSchema<RequiredShape<T>>;
+    /** An enum schema of the keys. */
+    keyof(): Schema<Extract<keyof T, string>>;
+}
+
+const mapShape = (shape: Record<string, Schema>, fn: (schema: Schema, key: string) => Schema | undefined) => {
+    const mapped: Record<string, Schema> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+        const result = fn(schema, key);
+        if (result) {
+            mapped[key] = result;
+        }
+    }
+    return mapped;
+};
+
+const isOptional = (schema: Schema): schema is OptionalSchema<Schema> => schema.def.type === 'optional';
+
+const deepPartial = (schema: Schema): Schema => {
+    const inner = isOptional(schema) ? schema.unwrap() : schema;
+    return optional(
+        inner.def.type === 'object' ? (inner as ObjectSchema<Record<string, Schema>>).deepPartial() : inner,
+    );
+};
+
+const makeObjectSchema = <T extends Record<string, Schema>>(schema: T, unknownKeys: UnknownKeys): ObjectSchema<T> => {
+    const keys = Object.keys(schema);
+    const fields = keys.length;
+    const undeclared = (obj: Indexable) => Object.keys(obj).filter((key) => !hasOwn(schema, key));
+
+    const prepare = (obj: Indexable, options?: ValidateOptions): Task[] | Failure => {
+        const issues: Issue[] = [];
+        const values = readOwnProperties(obj, schema, keys, issues, options);
+        if (values === undefined) {
+            return failure(issues);
+        }
+
+        const tasks = keys.map((key, i): Task => [schema[key], values[i], key]);
+        if (typeof unknownKeys === 'object' && 'catchall' in unknownKeys) {
+            for (const key of undeclared(obj)) {
+                tasks.push([unknownKeys.catchall, obj[key], key]);
+            }
+        }
+        return tasks;
+    };
+
+    const combine = (obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => {
+        const input = obj as Indexable;
+        const output: Indexable = unknownKeys === 'passthrough' ? { ...input } : {};
+        const issues = collect(
+            tasks,
+            result,
+            options,
+            (item, key) => {
+                if (item !== undefined || hasOwn(input, key)) {
+                    output[key] = item;
+                }
+            },
+            0,
+            fields,
+        );
+        if (issues.length && shouldAbortEarly(options)) {
+            return failure(issues);
         }
 
-        for (const val of obj) {
-            const result = schema.validate(val);
-            if (!result.success) {
-                return failure(result.error);
+        if (typeof unknownKeys === 'object') {
+            if ('strict' in unknownKeys) {
+                const keys = undeclared(input);
+                if (keys.length) {
+                    issues.push(unrecognizedKeys(keys, unknownKeys.strict));
+                }
+            } else {
+                issues.push(...collect(tasks, result, options, (item, key) => (output[key] = item), fields));
             }
         }
 
-        return success(obj);
+        return issues.length ? failure(issues) : success<InferShape<T>>(output);
     };
 
+    // the shapes of the derived schemas are typed by the methods of ObjectSchema
+    const derive = (shape: Record<string, Schema>, keys = unknownKeys): ObjectSchema<any> =>
+        makeObjectSchema(shape, keys);
+
     return {
-        validate,
+        ...makeSchema(
+            { type: 'object', shape: schema, unknownKeys },
+            collection(isObjectLike, 'object', prepare, combine),
+        ),
+        shape: schema,
+        passthrough: () => makeObjectSchema(schema, 'passthrough'),
+        strip: () => makeObjectSchema(schema, 'strip'),
+        strict: (message) => makeObjectSchema(schema, { strict: message }),
+        catchall: (catchall) => makeObjectSchema(schema, { catchall }),
+        extend: (shape) => derive({ ...schema, ...shape }),
+        merge: (other) => derive({ ...schema, ...other.shape }, (other.def as DefOf<'object'>).unknownKeys),
+        pick: (mask) => derive(mapShape(schema, (s, key) => (hasOwn(mask, key) ? s : undefined))),
+        omit: (mask) => derive(mapShape(schema, (s, key) => (hasOwn(mask, key) ? undefined : s))),
+        partial: () => derive(mapShape(schema, (s) => (isOptional(s) ? s : optional(s)))),
+        deepPartial: () => derive(mapShape(schema, deepPartial)),
+        required: () => derive(mapShape(schema, (s) => (isOptional(s) ? s.unwrap() : s))),
+        keyof: () => makeEnumSchema(Object.keys(schema) as Extract<keyof T, string>[]),
     };
 };
 
-type Indexable = Record<string, unknown>;
+export const object = <T extends Record<string, Schema>>(schema: T): ObjectSchema<T> =>
+    makeObjectSchema(schema, 'passthrough');
 
-export const object = <T extends Record<string, Schema>>(schema: T): Schema<T> => {
-    const validate = (obj: unknown): ValidationResult<Infer<Schema<T>>> => {
-        if (typeof obj !== 'object' || obj === null) {
-            return failure(new Error(`Expected an object, got: '${typeof obj}'`));
+/** The validations of the keys and values of `entries`, their issues reported under `pathKey`. */
+const entryTasks = (
+    entries: [unknown, unknown][],
+    keySchema: Schema,
+    valueSchema: Schema,
+    pathKey: (key: unknown, i: number) => string | number,
+): Task[] => {
+    const tasks: Task[] = [];
+    for (const [i, [key, value]] of entries.entries()) {
+        tasks.push([keySchema, key, pathKey(key, i)], [valueSchema, value, pathKey(key, i)]);
+    }
+    return tasks;
+};
+
+/** Combines the validations of key/value pairs, reporting the issues of both the key and the value under the key. */
+const collectEntries = (tasks: Task[], result: Results, options?: ValidateOptions) => {
+    const output: [unknown, unknown][] = [];
+    const issues: Issue[] = [];
+    for (let i = 0; i < tasks.length; i += 2) {
+        const keyRes = result(i);
+        const valueRes = result(i + 1);
+        if (keyRes.success && valueRes.success) {
+            output.push([keyRes.item, valueRes.item]);
+            continue;
         }
 
-        const o = obj as Indexable;
-        for (const [key, val] of Object.entries(schema)) {
-            const res = val.validate(o[key]);
+        for (const res of [keyRes, valueRes]) {
             if (!res.success) {
-                return failure(new Error(`Got invalid type for field '${key}': '${res.error.message}'`));
+                issues.push(...prefixIssues(res.error.issues, tasks[i][2] as string | number));
             }
         }
-        return success(o);
+        if (shouldAbortEarly(options)) {
+            break;
+        }
+    }
+
+    return { output, issues };
+};
+
+/** Records of string keys are dictionaries, those of enum or literal keys may miss some of them. */
+export type RecordOf<K extends string, V> = string extends K ? Record<K, V> : Partial<Record<K, V>>;
+
+/**
+ * Objects used as dictionaries: every own enumerable key and its value are validated. Keys are validated as the
+ * strings they are, so key schemas validate strings.
+ */
+export const record = <K extends string, KI extends string, V, VI>(
+    keySchema: Schema<K, KI>,
+    valueSchema: Schema<V, VI>,
+): Schema<RecordOf<K, V>, RecordOf<KI, VI>> => {
+    const isRecord = (obj: unknown): obj is Indexable => isObjectLike(obj) && !Array.isArray(obj);
+    const prepare = (obj: Indexable, options?: ValidateOptions): Task[] | Failure => {
+        const issues: Issue[] = [];
+        return !checkUndeclared(obj, undefined, issues, options)
+            ? failure(issues)
+            : entryTasks(Object.entries(obj), keySchema, valueSchema, (key) => key as string);
     };
 
-    return {
-        validate,
+    const combine = (_obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => {
+        const { output, issues } = collectEntries(tasks, result, options);
+        if (issues.length) {
+            return failure(issues);
+        }
+
+        const item: Indexable = {};
+        for (const [key, value] of output) {
+            item[key as string] = value;
+        }
+        return success<RecordOf<K, V>>(item);
     };
+
+    return makeSchema(
+        { type: 'record', key: keySchema, value: valueSchema },
+        collection<RecordOf<K, V>>(isRecord, 'object', prepare, combine),
+    );
 };
 
-export const optional = <T>(schema: Schema<T>): Schema<T | undefined | null> => {
-    const validate = (obj: unknown): ValidationResult<Infer<Schema<T | undefined | null>>> => {
-        if (obj === undefined || obj === null) {
-            return success(obj);
-        }
-        return schema.validate(obj);
+export const map = <K, KI, V, VI>(
+    keySchema: Schema<K, KI>,
+    valueSchema: Schema<V, VI>,
+): Schema<Map<K, V>, Map<KI, VI>> => {
+    const pathKey = (key: unknown, i: number) => (typeof key === 'string' || typeof key === 'number' ? key : i);
+    const isMap = (obj: unknown): obj is Map<unknown, unknown> => obj instanceof Map;
+    const prepare = (obj: Map<unknown, unknown>) => entryTasks([...obj.entries()], keySchema, valueSchema, pathKey);
+
+    const combine = (_obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => {
+        const { output, issues } = collectEntries(tasks, result, options);
+        return issues.length ? failure(issues) : success<Map<K, V>>(new Map(output as [K, V][]));
     };
 
-    return {
-        validate,
+    return makeSchema(
+        { type: 'map', key: keySchema, value: valueSchema },
+        collection<Map<K, V>>(isMap, 'Map', prepare, combine),
+    );
+};
+
+export const set = <T, I>(schema: Schema<T, I>): Schema<Set<T>, Set<I>> => {
+    const isSet = (obj: unknown): obj is Set<unknown> => obj instanceof Set;
+    const prepare = (obj: Set<unknown>) => [...obj].map((val, i): Task => [schema, val, i]);
+
+    const combine = (_obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => {
+        const output = new Set<T>();
+        const issues = collect(tasks, result, options, (item) => output.add(item as T));
+        return issues.length ? failure(issues) : success<Set<T>>(output);
     };
+
+    return makeSchema({ type: 'set', element: schema }, collection<Set<T>>(isSet, 'Set', prepare, combine));
 };
 
-export const or = <T, U>(left: Schema<T>, right: Schema<U>): Schema<T | U> => {
-    const validate = (obj: unknown): ValidationResult<Infer<Schema<T | U>>> => {
-        const leftRes = left.validate(obj);
-        if (leftRes.success) {
-            return success(obj);
-        }
+/** The values being validated by lazy schemas, from the innermost, passed down to the children with the options. */
+interface Ancestors {
+    lazy: unknown;
+    obj: unknown;
+    parent: Ancestors | undefined;
+}
+
+const ancestorsKey = Symbol('ancestors');
+
+type LazyOptions = ValidateOptions & { [ancestorsKey]?: Ancestors };
+
+/**
+ * Defers building `getSchema()` until the first validation, so that a schema can reference itself
+ * or a schema declared later. TypeScript cannot infer recursive types, annotate them instead:
+ *
+ *     interface Category { name: string; children: Category[] }
+ *     const category: Schema<Category> = lazy(() => object({ name: string(), children: array(category) }));
+ *
+ * Objects and arrays met again while validating their own content are rejected, rather than recursed into forever.
+ */
+export const lazy = <T, I = T>(getSchema: () => Schema<T, I>): Schema<T, I> => {
+    let schema: Schema<T, I> | undefined;
+    const resolve = () => (schema = schema || getSchema());
+    const token = {};
 
-        const rightRes = right.validate(obj);
-        if (rightRes.success) {
-            return success(obj);
+    /** The options to validate `obj` with, or null if this schema is already validating it further up. */
+    const enter = (obj: unknown, options?: LazyOptions): LazyOptions | undefined | null => {
+        if (!isObjectLike(obj)) {
+            return options;
         }
+        for (let ancestor = options?.[ancestorsKey]; ancestor; ancestor = ancestor.parent) {
+            if (ancestor.lazy === token && ancestor.obj === obj) {
+                return null;
+            }
+        }
+        return { ...options, [ancestorsKey]: { lazy: token, obj, parent: options?.[ancestorsKey] } };
+    };
+
+    return makeSchema(
+        { type: 'lazy', getSchema: resolve },
+        {
+            validate: (obj, options) => {
+                const inner = enter(obj, options);
+                return inner === null ? failure([cyclicReference()]) : resolve().validate(obj, inner);
+            },
+            validateAsync: async (obj, options) => {
+                const inner = enter(obj, options);
+                return inner === null ? failure([cyclicReference()]) : resolve().validateAsync(obj, inner);
+            },
+        },
+    );
+};
+
+export interface OptionalSchema<S extends Schema> extends Schema<Infer<S> | undefined, Input<S> | undefined> {
+    /** The schema validating the values which are not undefined. */
+    unwrap(): S;
+}
+
+/** Accepts undefined besides the values of `schema`. Object keys with optional values may be left out. */
+export const optional = <S extends Schema>(schema: S): OptionalSchema<S> => {
+    const prepare = (obj: unknown): Task[] | Success<undefined> => (obj === undefined ? success(obj) : [[schema, obj]]);
 
-        return failure(new Error(`Failed or case. Left: ${leftRes.error.message}, Right: ${rightRes.error.message}`));
+    return {
+        ...makeSchema({ type: 'optional', inner: schema }, composite<Infer<S> | undefined>(prepare, delegate)),
+        unwrap: () => schema,
     };
+};
+
+export interface NullableSchema<S extends Schema> extends Schema<Infer<S> | null, Input<S> | null> {
+    /** The schema validating the values which are not null. */
+    unwrap(): S;
+}
+
+/** Accepts null besides the values of `schema`. */
+export const nullable = <S extends Schema>(schema: S): NullableSchema<S> => {
+    const prepare = (obj: unknown): Task[] | Success<null> => (obj === null ? success(obj) : [[schema, obj]]);
 
     return {
-        validate,
+        ...makeSchema({ type: 'nullable', inner: schema }, composite<Infer<S> | null>(prepare, delegate)),
+        unwrap: () => schema,
     };
 };
 
-export const and = <T, U>(left: Schema<T>, right: Schema<U>): Schema<T & U> => {
-    const validate = (obj: unknown): ValidationResult<Infer<Schema<T & U>>> => {
-        const leftRes = left.validate(obj);
-        const rightRes = right.validate(obj);
+/** Accepts null and undefined besides the values of `schema`. */
+export const nullish = <S extends Schema>(schema: S): OptionalSchema<NullableSchema<S>> => optional(nullable(schema));
+
+/** Freezes the outputs of `schema`, typed as readonly objects, arrays, maps or sets. */
+export const readonly = <T, I>(schema: Schema<T, I>): Schema<ReadonlyOf<T>, ReadonlyOf<I>> =>
+    makeSchema(
+        { type: 'readonly', inner: schema },
+        wrap(schema, (result) => (result.success ? success(Object.freeze(result.item) as ReadonlyOf<T>) : result)),
+    );
+
+/** Tries the schemas in order, returning the result of the first matching one. */
+export const union = <T extends [Schema, Schema, ...Schema[]]>(
+    ...schemas: T
+): Schema<Infer<T[number]>, Input<T[number]>> => {
+    type Result = ValidationResult<Infer<T[number]>>;
+
+    const validate = (obj: unknown, options?: ValidateOptions): Result => {
+        const branches: Issue[][] = [];
+        for (const schema of schemas) {
+            const branch = fork(options);
+            const result = schema.validate(obj, branch);
+            if (result.success) {
+                join(options, branch);
+                return result as Result;
+            }
+            branches.push(result.error.issues);
+        }
+        return failure([invalidUnion(branches)]);
+    };
 
-        let errors = [];
-        if (!leftRes.success) {
-            errors.push(leftRes.error.message);
+    const validateAsync = async (obj: unknown, options?: ValidateOptions): Promise<Result> => {
+        const branches: Issue[][] = [];
+        for (const schema of schemas) {
+            const branch = fork(options);
+            const result = await schema.validateAsync(obj, branch);
+            if (result.success) {
+                join(options, branch);
+                return result as Result;
+            }
+            branches.push(result.error.issues);
         }
+        return failure([invalidUnion(branches)]);
+    };
+
+    return makeSchema({ type: 'union', options: schemas }, { validate, validateAsync });
+};
+
+export const or = <T, TI, U, UI>(left: Schema<T, TI>, right: Schema<U, UI>): Schema<T | U, TI | UI> =>
+    union(left, right);
 
-        if (!rightRes.success) {
-            errors.push(rightRes.error.message);
+/** An object schema declaring `K` as a literal. */
+type DiscriminatedOption<K extends string> = Schema<Record<K, Literal>, any> & {
+    readonly shape: Record<K, LiteralSchema<Literal>>;
+};
+
+/**
+ * A union of object schemas told apart by the literal value of their `key` field.
+ * Only the branch matching the discriminator is validated.
+ */
+export const discriminatedUnion = <K extends string, T extends [DiscriminatedOption<K>, ...DiscriminatedOption<K>[]]>(
+    key: K,
+    options: T,
+): Schema<Infer<T[number]>, Input<T[number]>> => {
+    const branches = new Map<unknown, Schema>();
+    for (const option of options) {
+        const discriminator = option.shape[key]?.def;
+        if (discriminator?.type !== 'literal') {
+            throw new Error(`Every option of the discriminated union must declare '${key}' as a literal`);
+        }
+        if (branches.has(discriminator.value)) {
+            throw new Error(`Duplicate discriminator value ${describeValue(discriminator.value)}`);
         }
+        branches.set(discriminator.value, option);
+    }
 
-        if (errors.length) {
-            return failure(new Error(`Failed and case. ${errors.join(', ')}`));
+    const prepare = (obj: unknown): Task[] | Failure => {
+        if (!isObjectLike(obj)) {
+            return invalidType('object', obj);
         }
 
-        return success(obj);
+        const value = ownValue(obj, key);
+        const branch = branches.get(value);
+        if (!branch) {
+            return failure([invalidUnionDiscriminator(key, [...branches.keys()], value)]);
+        }
+        return [[branch, obj]];
     };
 
-    return {
-        validate,
+    return makeSchema(
+        { type: 'discriminatedUnion', discriminator: key, options },
+        composite<Infer<T[number]>>(prepare, delegate),
+    );
+};
+
+type InferIntersection<T> = T extends [infer H, ...infer R] ? Infer<H> & InferIntersection<R> : unknown;
+type InputIntersection<T> = T extends [infer H, ...infer R] ? Input<H> & InputIntersection<R> : unknown;
+
+export const intersection = <T extends [Schema, Schema, ...Schema[]]>(
+    ...schemas: T
+): Schema<InferIntersection<T>, InputIntersection<T>> => {
+    const combine = (obj: unknown, tasks: Task[], result: Results, options?: ValidateOptions) => {
+        const results = tasks.map((_, i) => result(i));
+        // every branch counts the keys of the same value
+        tasks.forEach((task) => join(options, task[3]));
+        if (results.some((res) => !res.success)) {
+            return failure([invalidIntersection(results.map((res) => (res.success ? [] : res.error.issues)))]);
+        }
+
+        return success<InferIntersection<T>>(
+            results.reduce((merged, res) => mergeOutputs(obj, merged, (res as Success<unknown>).item), obj),
+        );
     };
+
+    return makeSchema(
+        { type: 'intersection', schemas },
+        composite((obj, options) => schemas.map((schema): Task => [schema, obj, undefined, fork(options)]), combine),
+    );
 };
+
+export const and = <T, TI, U, UI>(left: Schema<T, TI>, right: Schema<U, UI>): Schema<T & U, TI & UI> =>
+    intersection(left, right);
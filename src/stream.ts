@@ -0,0 +1,187 @@
+import { StringDecoder } from 'string_decoder';
+import { Transform } from 'stream';
+import { checkLength, failure, prefixIssues, success } from './internal';
+import { Failure, Schema, Success, ValidateOptions, ValidationResult } from './schema';
+
+export interface StreamOptions extends ValidateOptions {
+    /**
+     * How the input is split into elements: one JSON array, or one JSON document per line.
+     * Defaults to `auto`, which reads a JSON array when the input starts with `[`, and NDJSON otherwise.
+     */
+    format?: 'auto' | 'json' | 'ndjson';
+}
+
+/**
+ * The result of validating an element, with its index in the input. Issue paths start with that index, as when
+ * validating the whole array. The failures of the array itself, e.g. its length, come last and have no index.
+ */
+export type StreamResult<T> = ValidationResult<T> & { index?: number };
+
+/** A stream of bytes or strings in, validation results out. */
+export interface ValidationStream<T> extends Transform {
+    [Symbol.asyncIterator](): AsyncIterableIterator<StreamResult<T>>;
+}
+
+/** Splits text into the elements of the JSON array it holds, without parsing them. */
+const jsonArraySplitter = () => {
+    let state: 'start' | 'elements' | 'end' = 'start';
+    let element = '';
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let separated = false; // whether a comma preceded the current element
+
+    const write = (text: string): string[] => {
+        const elements: string[] = [];
+        let start = 0;
+        for (let i = 0; i < text.length; i++) {
+            const c = text[i];
+            if (state !== 'elements') {
+                if (/\s/.test(c)) {
+                    continue;
+                }
+                if (state === 'end' || c !== '[') {
+                    throw new SyntaxError(`Unexpected token ${c} ${state === 'end' ? 'after' : 'before'} the array`);
+                }
+                state = 'elements';
+                start = i + 1;
+            } else if (inString) {
+                if (escaped) {
+                    escaped = false;
+                } else if (c === '\\') {
+                    escaped = true;
+                } else if (c === '"') {
+                    inString = false;
+                }
+            } else if (c === '"') {
+                inString = true;
+            } else if (c === '[' || c === '{') {
+                depth++;
+            } else if ((c === ']' || c === '}') && depth > 0) {
+                depth--;
+            } else if (depth === 0 && (c === ',' || c === ']')) {
+                element += text.slice(start, i);
+                if (c === ',' || separated || element.trim() !== '') {
+                    elements.push(element);
+                }
+                element = '';
+                separated = c === ',';
+                start = i + 1;
+                if (c === ']') {
+                    state = 'end';
+                }
+            }
+        }
+        if (state === 'elements') {
+            element += text.slice(start);
+        }
+        return elements;
+    };
+
+    const end = (): string[] => {
+        if (state !== 'end') {
+            throw new SyntaxError('Unexpected end of the JSON array');
+        }
+        return [];
+    };
+
+    return { write, end };
+};
+
+/** Splits text into its lines, skipping blank ones. */
+const lineSplitter = () => {
+    let line = '';
+
+    const write = (text: string): string[] => {
+        const lines = (line + text).split('\n');
+        line = lines.pop() as string;
+        return lines.filter((l) => l.trim() !== '');
+    };
+
+    const end = (): string[] => (line.trim() === '' ? [] : [line]);
+
+    return { write, end };
+};
+
+const parse = (text: string): Success<unknown> | Failure => {
+    try {
+        return success(JSON.parse(text));
+    } catch (e) {
+        return failure([{ code: 'custom', path: [], message: `Invalid JSON: ${e.message}` }]);
+    }
+};
+
+/**
+ * Validates a stream of NDJSON or of a JSON array against an array schema, one element at a time, without
+ * holding the whole input in memory. Elements are validated in order, and the stream only reads more input
+ * once the results it emits are consumed. Malformed elements are reported as failures, but a malformed array
+ * errors the stream.
+ *
+ * ```ts
+ * for await (const result of createReadStream('users.ndjson').pipe(validateStream(array(user)))) { ... }
+ * ```
+ */
+export const validateStream = <T>(schema: Schema<T[], unknown>, options: StreamOptions = {}): ValidationStream<T> => {
+    const { def } = schema;
+    if (def.type !== 'array') {
+        throw new Error(`Streams are validated against array schemas, not ${def.type} schemas`);
+    }
+    const { format = 'auto', ...validateOptions } = options;
+    const decoder = new StringDecoder('utf8');
+    let splitter: ReturnType<typeof lineSplitter> | undefined;
+    let index = 0;
+
+    const validate = async (stream: Transform, texts: string[]) => {
+        for (const text of texts) {
+            const parsed = parse(text);
+            const result = parsed.success ? await def.element.validateAsync(parsed.item, validateOptions) : parsed;
+            stream.push({ ...(result.success ? result : failure(prefixIssues(result.error.issues, index))), index });
+            index++;
+        }
+    };
+
+    const split = (text: string): string[] => {
+        if (splitter === undefined) {
+            const start = /\S/.exec(text);
+            if (start === null) {
+                return [];
+            }
+            const json = format === 'json' || (format === 'auto' && start[0] === '[');
+            splitter = json ? jsonArraySplitter() : lineSplitter();
+        }
+        return splitter.write(text);
+    };
+
+    const stream: Transform = new Transform({
+        readableObjectMode: true,
+        transform(chunk: Buffer | string, _encoding, callback) {
+            let texts: string[];
+            try {
+                texts = split(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+            } catch (e) {
+                return callback(e);
+            }
+            validate(stream, texts).then(() => callback(), callback);
+        },
+        flush(callback) {
+            let texts: string[];
+            try {
+                texts = [...split(decoder.end()), ...(splitter?.end() ?? [])];
+            } catch (e) {
+                return callback(e);
+            }
+            validate(stream, texts)
+                .then(() => {
+                    const issues = def.checks.map((check) => checkLength(check, index));
+                    for (const issue of issues) {
+                        if (issue !== undefined) {
+                            stream.push(failure([issue]));
+                        }
+                    }
+                    callback();
+                })
+                .catch(callback);
+        },
+    });
+    return stream as ValidationStream<T>;
+};
@@ -0,0 +1,231 @@
+import { DefOf, Literal, Schema } from './schema';
+
+export interface TypeScriptOptions {
+    /** The name of the type declared for the schema. */
+    name: string;
+    /** Declares the types of the inputs the schemas accept, rather than of their outputs. */
+    input?: boolean;
+}
+
+const indentation = '    ';
+
+const identifier = /^[A-Za-z_$][\w$]*$/;
+
+const key = (name: string): string => (identifier.test(name) ? name : JSON.stringify(name));
+
+const literal = (value: Literal): string => {
+    switch (typeof value) {
+        case 'string':
+            return JSON.stringify(value);
+        case 'bigint':
+            return `${value}n`;
+        default:
+            return String(value);
+    }
+};
+
+const comment = (description: string | undefined, indent: string): string =>
+    description === undefined ? '' : `${indent}/** ${description.replace(/\*\//g, '*\\/')} */\n`;
+
+/** Wraps unions and intersections in parentheses, for them to be used as an element type. */
+const operand = (type: string, schema: Schema): string => {
+    const { def } = schema;
+    const compound =
+        ['union', 'discriminatedUnion', 'intersection', 'optional', 'nullable', 'function'].includes(def.type) ||
+        (def.type === 'enum' && def.options.length > 1);
+    return compound ? `(${type})` : type;
+};
+
+/** Whether the keys of a record are a known set of literals, so that records may miss some of them. */
+const finiteKeys = ({ def }: Schema): boolean =>
+    def.type === 'literal' || def.type === 'enum' || (def.type === 'union' && def.options.every(finiteKeys));
+
+/**
+ * Prints TypeScript declarations for the type of the values a schema outputs (or accepts, with `input`),
+ * e.g. to write `.d.ts` files for schemas built at runtime. Named schemas are declared as separate exported types.
+ * The output types of transforms cannot be known, and are declared as `unknown`.
+ */
+export const toTypeScript = (schema: Schema, options: TypeScriptOptions): string => {
+    const { name } = options;
+    let input = options.input ?? false;
+    const names = new Map<Schema, string>([[schema, name]]);
+    const schemas = new Map<string, Schema>([[name, schema]]);
+    const declarations: string[] = [];
+    const expanding = new Set<Schema>();
+
+    /** The name of the type declared for `s`, declaring it first if needed. */
+    const reference = (s: Schema): string | undefined => {
+        let declared = names.get(s);
+        if (declared === undefined) {
+            if (s.def.name === undefined) {
+                return undefined;
+            }
+            declared = s.def.name;
+            if (schemas.has(declared)) {
+                throw new Error(`Two different schemas are named ${declared}`);
+            }
+            names.set(s, declared);
+            schemas.set(declared, s);
+            declare(s, declared);
+        }
+        return declared;
+    };
+
+    const declare = (s: Schema, declared: string) => {
+        const index = declarations.push('') - 1; // keeps the declarations in the order they are referenced
+        let target = s;
+        while (target.def.type === 'lazy' || target.def.type === 'refinement') {
+            target = target.def.type === 'lazy' ? target.def.getSchema() : target.def.inner;
+        }
+        const body = convertDef(s);
+        declarations[index] =
+            comment(s.def.description, '') +
+            (target.def.type === 'object' && (target === s || target.def.name === undefined)
+                ? `export interface ${declared} ${body}`
+                : `export type ${declared} = ${body};`);
+    };
+
+    const convert = (s: Schema, indent = ''): string => {
+        const declared = reference(s);
+        return declared === undefined ? convertDef(s, indent) : declared;
+    };
+
+    const convertDef = (s: Schema, indent = ''): string => {
+        const { def } = s;
+        switch (def.type) {
+            case 'string':
+            case 'number':
+            case 'boolean':
+            case 'bigint':
+            case 'symbol':
+            case 'null':
+            case 'undefined':
+            case 'unknown':
+            case 'never':
+                return def.type;
+            case 'date':
+                return 'Date';
+            case 'instanceOf':
+                return def.cls.name;
+            case 'literal':
+                return literal(def.value);
+            case 'enum':
+                return def.options.map(literal).join(' | ');
+            case 'object':
+                return object(def, indent);
+            case 'array':
+                return `${operand(convert(def.element, indent), def.element)}[]`;
+            case 'tuple':
+                return `[${def.items.map((item) => convert(item, indent)).join(', ')}]`;
+            case 'record': {
+                const record = `Record<${convert(def.key, indent)}, ${convert(def.value, indent)}>`;
+                return finiteKeys(def.key) ? `Partial<${record}>` : record;
+            }
+            case 'map':
+                return `Map<${convert(def.key, indent)}, ${convert(def.value, indent)}>`;
+            case 'set':
+                return `Set<${convert(def.element, indent)}>`;
+            case 'function': {
+                // the parameters of functions are typed the other way round, e.g. output functions take the inputs of `args`
+                input = !input;
+                const args = convert(def.args, indent);
+                input = !input;
+                return `(...args: ${args}) => ${convert(def.returns, indent)}`;
+            }
+            case 'lazy': {
+                if (expanding.has(s)) {
+                    throw new Error('Recursive schemas must be named to be converted to TypeScript');
+                }
+                expanding.add(s);
+                const type = convert(def.getSchema(), indent);
+                expanding.delete(s);
+                return type;
+            }
+            case 'optional':
+                return `${convert(def.inner, indent)} | undefined`;
+            case 'nullable':
+                return `${convert(def.inner, indent)} | null`;
+            case 'readonly':
+                return readonly(def.inner, indent);
+            case 'union':
+            case 'discriminatedUnion':
+                return def.options.map((option) => convert(option, indent)).join(' | ');
+            case 'intersection':
+                return def.schemas.map((member) => operand(convert(member, indent), member)).join(' & ');
+            case 'transform':
+                return input ? convert(def.inner, indent) : 'unknown';
+            case 'default':
+                if (input) {
+                    return `${convert(def.inner, indent)} | undefined`;
+                }
+                return def.inner.def.type === 'optional'
+                    ? convert(def.inner.def.inner, indent)
+                    : convert(def.inner, indent);
+            case 'refinement':
+                return convert(def.inner, indent);
+        }
+    };
+
+    /** Whether the type of the schema includes undefined, in which case its object key is optional. */
+    const acceptsUndefined = (s: Schema): boolean => {
+        const { def } = s;
+        switch (def.type) {
+            case 'optional':
+            case 'undefined':
+            case 'unknown':
+                return true;
+            case 'literal':
+                return def.value === undefined;
+            case 'default':
+                return input;
+            case 'transform':
+                return !input || acceptsUndefined(def.inner);
+            case 'nullable':
+            case 'readonly':
+            case 'refinement':
+                return acceptsUndefined(def.inner);
+            case 'lazy':
+                return acceptsUndefined(def.getSchema());
+            case 'union':
+            case 'discriminatedUnion':
+                return def.options.some(acceptsUndefined);
+            default:
+                return false;
+        }
+    };
+
+    const object = ({ shape }: DefOf<'object'>, indent: string, modifier = ''): string => {
+        const entries = Object.entries(shape);
+        if (!entries.length) {
+            return '{}';
+        }
+        const inner = indent + indentation;
+        const fields = entries.map(
+            ([name, field]) =>
+                // named schemas carry their description on their own declaration
+                (reference(field) === undefined ? comment(field.def.description, inner) : '') +
+                `${inner}${modifier}${key(name)}${acceptsUndefined(field) ? '?' : ''}: ${convert(field, inner)};`,
+        );
+        return `{\n${fields.join('\n')}\n${indent}}`;
+    };
+
+    const readonly = (inner: Schema, indent: string): string => {
+        const { def } = inner;
+        if (reference(inner) === undefined) {
+            switch (def.type) {
+                case 'object':
+                    return object(def, indent, 'readonly ');
+                case 'array':
+                case 'tuple':
+                    return `readonly ${convertDef(inner, indent)}`;
+                case 'map':
+                case 'set':
+                    return `Readonly${convertDef(inner, indent)}`;
+            }
+        }
+        return `Readonly<${convert(inner, indent)}>`;
+    };
+
+    declare(schema, name);
+    return declarations.join('\n\n') + '\n';
+};
@@ -0,0 +1,168 @@
+import {
+    and,
+    array,
+    enumOf,
+    lazy,
+    literal,
+    nullable,
+    number,
+    object,
+    optional,
+    or,
+    record,
+    Schema,
+    string,
+    tuple,
+    union,
+    unknown,
+} from '../src/schema';
+import { checkCompatibility, SchemaChange } from '../src/compatibility';
+
+const summary = (changes: SchemaChange[]) =>
+    changes.map(({ kind, path, breaksBackward, breaksForward }) => ({ kind, path, breaksBackward, breaksForward }));
+
+describe('checkCompatibility', () => {
+    const user = object({ id: number(), name: string(), email: optional(string()) });
+
+    it('accepts identical and equivalent schemas', () => {
+        expect(checkCompatibility(user, user)).toEqual({ backward: true, forward: true, changes: [] });
+        const copy = object({ id: number(), name: string(), email: optional(string()) });
+        expect(checkCompatibility(user, copy)).toEqual({ backward: true, forward: true, changes: [] });
+    });
+
+    it('reports added and removed fields', () => {
+        const added = checkCompatibility(user, user.extend({ age: number(), nickname: optional(string()) }));
+        expect(added.backward).toBe(false);
+        expect(added.forward).toBe(true);
+        expect(added.changes).toEqual([
+            {
+                kind: 'field_added',
+                path: ['age'],
+                message: "Field 'age' was added as required",
+                breaksBackward: true,
+                breaksForward: false,
+            },
+        ]);
+
+        expect(
+            summary(checkCompatibility(user.strict(), user.extend({ nickname: optional(string()) }).strict()).changes),
+        ).toEqual([{ kind: 'field_added', path: ['nickname'], breaksBackward: false, breaksForward: true }]);
+        expect(summary(checkCompatibility(user, user.omit({ name: true, email: true })).changes)).toEqual([
+            { kind: 'field_removed', path: ['name'], breaksBackward: false, breaksForward: true },
+        ]);
+        expect(summary(checkCompatibility(user, user.omit({ email: true }).strict()).changes)).toEqual([
+            { kind: 'field_removed', path: ['email'], breaksBackward: true, breaksForward: false },
+        ]);
+    });
+
+    it('reports fields made required or optional', () => {
+        const required = checkCompatibility(user, user.required());
+        expect(required.backward).toBe(false);
+        expect(summary(required.changes)).toEqual([
+            { kind: 'made_required', path: ['email'], breaksBackward: true, breaksForward: false },
+        ]);
+        expect(summary(checkCompatibility(user, user.extend({ name: nullable(string()) })).changes)).toEqual([
+            { kind: 'made_nullable', path: ['name'], breaksBackward: false, breaksForward: true },
+        ]);
+        expect(checkCompatibility(user, user.extend({ id: number().default(0) })).changes[0].kind).toBe(
+            'made_optional',
+        );
+    });
+
+    it('reports type changes, narrowing and widening', () => {
+        expect(summary(checkCompatibility(user, user.extend({ id: string() })).changes)).toEqual([
+            { kind: 'type_changed', path: ['id'], breaksBackward: true, breaksForward: true },
+        ]);
+        expect(checkCompatibility(number(), literal(1)).changes).toEqual([
+            {
+                kind: 'type_changed',
+                path: [],
+                message: 'The type was narrowed from number to literal',
+                breaksBackward: true,
+                breaksForward: false,
+            },
+        ]);
+        expect(checkCompatibility(enumOf(['a', 'b']), string())).toMatchObject({ backward: true, forward: false });
+        expect(checkCompatibility(string(), unknown())).toMatchObject({ backward: true, forward: false });
+        expect(summary(checkCompatibility(enumOf(['a', 'b']), enumOf(['b', 'c'])).changes)).toEqual([
+            { kind: 'values_removed', path: [], breaksBackward: true, breaksForward: false },
+            { kind: 'values_added', path: [], breaksBackward: false, breaksForward: true },
+        ]);
+    });
+
+    it('reports added and removed checks', () => {
+        expect(summary(checkCompatibility(string().max(10), string().min(1).max(10)).changes)).toEqual([
+            { kind: 'check_added', path: [], breaksBackward: true, breaksForward: false },
+        ]);
+        expect(checkCompatibility(string().max(10, 'Too long'), string().max(10))).toMatchObject({ changes: [] });
+        expect(checkCompatibility(array(number()).min(1), array(number()))).toMatchObject({
+            backward: true,
+            forward: false,
+        });
+    });
+
+    it('reports relaxed and tightened bounds', () => {
+        expect(checkCompatibility(number().min(5), number().min(3))).toMatchObject({
+            backward: true,
+            forward: false,
+            changes: [{ kind: 'check_relaxed', message: 'The check min(5) was relaxed to min(3)' }],
+        });
+        expect(summary(checkCompatibility(string().max(10), string().max(5)).changes)).toEqual([
+            { kind: 'check_tightened', path: [], breaksBackward: true, breaksForward: false },
+        ]);
+        expect(checkCompatibility(array(number()).min(1).max(3), array(number()).min(0).max(5))).toMatchObject({
+            backward: true,
+            forward: false,
+        });
+        expect(checkCompatibility(number().min(0), number().gt(0))).toMatchObject({ backward: false, forward: true });
+        expect(checkCompatibility(number().positive(), number().gt(0))).toMatchObject({ changes: [] });
+        expect(summary(checkCompatibility(string().length(3), string().length(4)).changes)).toEqual([
+            { kind: 'check_added', path: [], breaksBackward: true, breaksForward: false },
+            { kind: 'check_removed', path: [], breaksBackward: false, breaksForward: true },
+        ]);
+    });
+
+    it('reports removed and added union branches', () => {
+        const id = or(number(), string());
+        expect(summary(checkCompatibility(id, number()).changes)).toEqual([
+            { kind: 'union_branch_removed', path: [], breaksBackward: true, breaksForward: false },
+        ]);
+        expect(summary(checkCompatibility(id, union(number(), string(), object({ key: string() }))).changes)).toEqual([
+            { kind: 'union_branch_added', path: [], breaksBackward: false, breaksForward: true },
+        ]);
+        expect(checkCompatibility(id, union(string(), number()))).toMatchObject({ changes: [] });
+    });
+
+    it('reports changed tuple lengths', () => {
+        expect(
+            summary(checkCompatibility(tuple(number(), number()), tuple(number(), number(), number())).changes),
+        ).toEqual([{ kind: 'tuple_length_changed', path: [], breaksBackward: true, breaksForward: true }]);
+    });
+
+    it('reports nested changes with their paths', () => {
+        const order = (item: Schema) => object({ items: array(item), meta: record(string(), tuple(string(), item)) });
+        const changes = checkCompatibility(order(object({ sku: string() })), order(object({ sku: number() }))).changes;
+        expect(changes.map((change) => change.path)).toEqual([
+            ['items', '*', 'sku'],
+            ['meta', '*', 1, 'sku'],
+        ]);
+        expect(
+            checkCompatibility(
+                and(object({ a: string() }), object({ b: number() })),
+                and(object({ a: string() }), object({ b: string() })),
+            ).changes[0].path,
+        ).toEqual(['b']);
+    });
+
+    it('compares recursive schemas', () => {
+        interface Node {
+            value: number;
+            children: Node[];
+        }
+        const before: Schema<Node> = lazy(() => object({ value: number(), children: array(before) }));
+        const after: Schema<Node> = lazy(() => object({ value: number().int(), children: array(after) }));
+        expect(summary(checkCompatibility(before, after).changes)).toEqual([
+            { kind: 'check_added', path: ['value'], breaksBackward: true, breaksForward: false },
+        ]);
+    });
+});
@@ -0,0 +1,224 @@
+import {
+    array,
+    bigint,
+    boolean,
+    coerce,
+    date,
+    discriminatedUnion,
+    enumOf,
+    instanceOf,
+    intersection,
+    lazy,
+    literal,
+    map,
+    never,
+    nullType,
+    number,
+    object,
+    optional,
+    nullable,
+    nullish,
+    readonly,
+    record,
+    Schema,
+    set,
+    string,
+    tuple,
+    undefinedType,
+    union,
+    unknown,
+    ValidationLimits,
+    ValidationResult,
+} from '../src/schema';
+import { compile } from '../src/compile';
+
+// jest compares errors by message only, compare their issues as well
+const outcome = (result: ValidationResult<unknown>) =>
+    result.success ? result : { success: false, message: result.error.message, issues: result.error.issues };
+
+const expectSameResults = (schema: Schema, values: unknown[], limits?: ValidationLimits) => {
+    const compiled = compile(schema);
+    for (const value of values) {
+        for (const options of [{ limits }, { abortEarly: false, limits }]) {
+            expect(outcome(compiled.validate(value, options))).toEqual(outcome(schema.validate(value, options)));
+        }
+    }
+};
+
+interface Category {
+    name: string;
+    children: Category[];
+}
+
+const category: Schema<Category> = lazy(() => object({ name: string(), children: array(category) }));
+
+describe('compile', () => {
+    it('validates primitives and literals', () => {
+        const values = [
+            0,
+            NaN,
+            'a',
+            '1',
+            true,
+            null,
+            undefined,
+            BigInt(1),
+            Symbol(),
+            new Date(),
+            new Date('a'),
+            {},
+            [],
+        ];
+        for (const schema of [
+            string(),
+            number(),
+            boolean(),
+            bigint(),
+            nullType(),
+            undefinedType(),
+            unknown(),
+            never(),
+            date(),
+            instanceOf(Date),
+            literal('a'),
+            enumOf(['a', 0]),
+            coerce.number(),
+            coerce.boolean(),
+            coerce.date(),
+        ]) {
+            expectSameResults(schema, values);
+        }
+    });
+
+    it('runs the checks', () => {
+        expectSameResults(string().min(2).max(3).email(), ['', 'a@b.c', 'ab@cd.ef', 'abcd']);
+        expectSameResults(number().int().positive().lt(10).multipleOf(2), [-1.5, 0, 4, 10, 11]);
+        expectSameResults(array(number()).min(1).max(2), [[], [1], [1, 2, 3], [1, 'a']]);
+    });
+
+    it('validates objects in every unknown keys mode', () => {
+        const shape = { a: string(), b: optional(number()), c: number().default(1) };
+        const values = [{ a: 'a' }, { a: 'a', b: null, d: 1 }, { a: 1, b: 'b', d: 'd' }, { b: undefined }, null, []];
+        expectSameResults(object(shape), values);
+        expectSameResults(object(shape).strip(), values);
+        expectSameResults(object(shape).strict(), values);
+        expectSameResults(object(shape).strict('No extra keys'), values);
+        expectSameResults(object(shape).catchall(string()), values);
+    });
+
+    it('validates collections', () => {
+        expectSameResults(tuple(string(), number()), [['a', 1], ['a'], ['a', 1, 2], [1, 'a'], 'a']);
+        expectSameResults(array(object({ id: number() })), [[{ id: 1 }, { id: 'a' }, {}], [{ id: 1 }]]);
+        expectSameResults(record(string().min(2), number()), [{ ab: 1 }, { a: 1, bc: 'c' }, [], null]);
+        expectSameResults(map(string(), number()), [new Map([['a', 1]]), new Map<unknown, unknown>([[1, 'a']]), {}]);
+        expectSameResults(set(number()), [new Set([1, 2]), new Set([1, 'a', 'b']), []]);
+        expectSameResults(object({ a: nullable(string()), b: nullish(number()), c: readonly(array(number())) }), [
+            { a: null, c: [1] },
+            { a: 'a', b: null, c: [] },
+            { a: undefined, b: 'b', c: ['c'] },
+        ]);
+    });
+
+    it('validates unions and intersections', () => {
+        expectSameResults(union(string(), object({ a: number() })), ['a', { a: 1 }, { a: 'a' }, 1]);
+        expectSameResults(
+            discriminatedUnion('kind', [
+                object({ kind: literal('a'), a: string() }),
+                object({ kind: literal('b'), b: number() }),
+            ]),
+            [{ kind: 'a', a: 'a' }, { kind: 'b', b: 'b' }, { kind: 'c' }, 'a'],
+        );
+        expectSameResults(
+            intersection(object({ a: string() }).strip(), object({ b: number().transform(String) }).strip()),
+            [{ a: 'a', b: 1 }, { a: 1, b: 'b' }, {}],
+        );
+    });
+
+    it('runs transforms, defaults and refinements', () => {
+        const schema = object({
+            name: string().transform((s) => s.trim()),
+            tags: array(string()).default([]),
+            range: object({ min: number(), max: number() }).refine(({ min, max }) => min <= max, 'Invalid range'),
+        });
+        expectSameResults(schema, [
+            { name: ' a ', range: { min: 1, max: 2 } },
+            { name: ' a ', range: { min: 2, max: 1 } },
+            { name: 1, tags: 'a', range: {} },
+        ]);
+    });
+
+    it('falls back to the interpreted validator for lazy schemas', () => {
+        const cyclic: Category = { name: 'a', children: [] };
+        cyclic.children.push(cyclic);
+        expectSameResults(object({ root: category }), [
+            { root: { name: 'a', children: [{ name: 'b', children: [] }] } },
+            { root: { name: 'a', children: [{ name: 1, children: [] }] } },
+            { root: cyclic },
+        ]);
+    });
+
+    it('applies the limits and rejects polluting keys and accessors', () => {
+        const schema = object({
+            name: string(),
+            tags: array(string()),
+            meta: record(string(), tuple(number(), set(number()))),
+            kind: discriminatedUnion('type', [object({ type: literal('a') }), object({ type: literal('b') })]),
+        });
+        const item = { name: 'abc', tags: ['a', 'b'], meta: { a: [1, new Set([1])] }, kind: { type: 'a' } };
+        const compiled = compile(schema);
+        for (const limits of [{ maxDepth: 3 }, { maxArrayLength: 1 }, { maxStringLength: 2 }, { maxKeys: 5 }, {}]) {
+            for (const options of [{ limits }, { limits, abortEarly: false }]) {
+                expect(outcome(compiled.validate(item, options))).toEqual(outcome(schema.validate(item, options)));
+            }
+        }
+        expectSameResults(schema, [
+            JSON.parse('{"name": "a", "tags": [], "meta": {"__proto__": [1, []]}, "kind": {"type": "a"}}'),
+            { ...item, constructor: 'a', prototype: 'b' },
+            { ...item, kind: Object.defineProperty({}, 'type', { get: () => 'a', enumerable: true }) },
+            { ...item, kind: Object.create({ type: 'a' }) },
+        ]);
+    });
+
+    it('counts the keys of the union and intersection branches once', () => {
+        const pair = union(object({ a: string(), b: string() }), object({ a: number(), b: number() }));
+        const both = intersection(object({ a: number() }), object({ b: number() }));
+        const cases: [Schema, unknown][] = [
+            [
+                array(pair),
+                [
+                    { a: 1, b: 1 },
+                    { a: 2, b: 2 },
+                ],
+            ],
+            [pair, { a: 1, b: 1 }],
+            [object({ v: both }), { v: { a: 1, b: 2 } }],
+            [both, { a: 1, b: 2 }],
+        ];
+        for (const [schema, value] of cases) {
+            for (const maxKeys of [1, 2, 3, 4]) {
+                expectSameResults(schema, [value], { maxKeys });
+            }
+            expect(compile(schema).validate(value, { limits: { maxKeys: 4 } }).success).toBe(true);
+        }
+        // the keys of failing branches are not counted
+        expectSameResults(
+            array(union(object({ a: number() }), object({ b: number() }))),
+            [[{ a: 'x', b: 'y', c: 1 }, { a: 1 }]],
+            { maxKeys: 3 },
+        );
+    });
+
+    it('bounds the depth by default', () => {
+        let deep: Category = { name: 'a', children: [] };
+        for (let i = 0; i < 20000; i++) {
+            deep = { name: 'a', children: [deep] };
+        }
+        expect(JSON.stringify(compile(category).validate(deep))).toContain('Exceeds the maximum depth of 256');
+    });
+
+    it('keeps the schema methods', () => {
+        const schema = compile(object({ a: number() })).transform(({ a }) => a * 2);
+        expect(schema.validate({ a: 2 })).toEqual({ success: true, item: 4 });
+        expect(schema.def.type).toBe('transform');
+    });
+});
@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError } from '../src/errors';
+import { loadConfig, loadEnv } from '../src/config';
+import { array, boolean, date, enumOf, number, object, optional, string, union, literal } from '../src/schema';
+
+const schema = object({
+    port: number().int(),
+    host: string().default('localhost'),
+    debug: boolean().default(false),
+    logLevel: enumOf(['debug', 'info', 'warn']).default('info'),
+    allowedOrigins: array(string()).default([]),
+    database: object({
+        url: string().url(),
+        maxConnections: optional(number().min(1)),
+    }),
+});
+
+describe('loadEnv', () => {
+    it('converts variables to the declared types', () => {
+        const config = loadEnv(schema, {
+            prefix: 'APP_',
+            env: {
+                APP_PORT: '8080',
+                APP_DEBUG: 'true',
+                APP_LOG_LEVEL: 'warn',
+                APP_ALLOWED_ORIGINS: 'https://a.com, https://b.com',
+                APP_DATABASE__URL: 'postgres://localhost/app',
+                APP_DATABASE__MAX_CONNECTIONS: '10',
+                PORT: '1',
+            },
+        });
+        expect(config).toEqual({
+            port: 8080,
+            host: 'localhost',
+            debug: true,
+            logLevel: 'warn',
+            allowedOrigins: ['https://a.com', 'https://b.com'],
+            database: { url: 'postgres://localhost/app', maxConnections: 10 },
+        });
+    });
+
+    it('converts dates, JSON values and union members', () => {
+        const config = loadEnv(
+            object({
+                since: date(),
+                limits: object({ a: number() }),
+                ports: array(number()),
+                timeout: union(number(), literal('none')),
+                mode: union(literal(1), literal(2)),
+            }),
+            { env: { SINCE: '2020-01-01', LIMITS: '{"a":1}', PORTS: '[1, 2]', TIMEOUT: 'none', MODE: '2' } },
+        );
+        expect(config).toEqual({
+            since: new Date('2020-01-01'),
+            limits: { a: 1 },
+            ports: [1, 2],
+            timeout: 'none',
+            mode: 2,
+        });
+    });
+
+    it('reports every missing or invalid variable at once', () => {
+        let error: unknown;
+        try {
+            loadEnv(schema, { prefix: 'APP_', env: { APP_PORT: 'eighty', APP_DEBUG: 'maybe' } });
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(ConfigError);
+        expect((error as ConfigError).message).toBe(
+            [
+                'Invalid config:',
+                '  port: Expected number, but got string (from APP_PORT)',
+                '  debug: Expected boolean, but got string (from APP_DEBUG)',
+                '  database.url: Expected string, but got undefined (set APP_DATABASE__URL)',
+            ].join('\n'),
+        );
+        expect((error as ConfigError).issues.map((issue) => issue.path)).toEqual([
+            ['port'],
+            ['debug'],
+            ['database', 'url'],
+        ]);
+    });
+
+    it('leaves out the optional objects without variables', () => {
+        const optionalObject = object({ cache: optional(object({ url: string() })) });
+        expect(loadEnv(optionalObject, { env: {} })).toEqual({});
+        expect(() => loadEnv(object({ cache: object({ url: string() }) }), { env: {} })).toThrow(
+            'cache.url: Expected string, but got undefined (set CACHE__URL)',
+        );
+    });
+});
+
+describe('loadConfig', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runval-config-'));
+        await fs.writeFile(
+            path.join(dir, 'config.json'),
+            JSON.stringify({
+                port: 3000,
+                host: 'example.com',
+                database: { url: 'postgres://db/app', maxConnections: 0 },
+            }),
+        );
+        await fs.writeFile(path.join(dir, 'invalid.json'), '{ port: 1 }');
+    });
+
+    afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+    it('merges layered sources, later ones overriding earlier ones', () => {
+        const config = loadConfig(schema, [
+            { type: 'values', values: { port: 80, debug: true } },
+            { type: 'file', path: path.join(dir, 'config.json') },
+            { type: 'file', path: path.join(dir, 'local.json'), optional: true },
+            { type: 'env', prefix: 'APP_', env: { APP_PORT: '4000', APP_DATABASE__MAX_CONNECTIONS: '5' } },
+        ]);
+        expect(config).toEqual({
+            port: 4000,
+            host: 'example.com',
+            debug: true,
+            logLevel: 'info',
+            allowedOrigins: [],
+            database: { url: 'postgres://db/app', maxConnections: 5 },
+        });
+    });
+
+    it('reports where invalid values come from', () => {
+        const file = path.join(dir, 'config.json');
+        expect(() => loadConfig(schema, [{ type: 'file', path: file }])).toThrow(
+            `database.maxConnections: Expected a number greater than or equal to 1 (from ${file})`,
+        );
+        expect(() =>
+            loadConfig(schema, [
+                { type: 'file', path: path.join(dir, 'missing.json') },
+                { type: 'file', path: path.join(dir, 'invalid.json') },
+                { type: 'values', values: { port: 80, database: { url: 'postgres://db/app' } } },
+            ]),
+        ).toThrow(/^Invalid config:\n {2}Cannot read .*missing\.json: ENOENT.*\n {2}Invalid JSON in .*invalid\.json: /);
+    });
+});
@@ -0,0 +1,5 @@
+import { array, number, object, optional, string } from '../../src';
+
+export const user = object({ id: number().int(), name: string().min(1), email: optional(string().email()) });
+
+export const users = array(user);
@@ -0,0 +1,159 @@
+import {
+    array,
+    bigint,
+    boolean,
+    coerce,
+    date,
+    discriminatedUnion,
+    enumOf,
+    instanceOf,
+    intersection,
+    lazy,
+    literal,
+    map,
+    never,
+    nullable,
+    nullish,
+    number,
+    object,
+    optional,
+    readonly,
+    record,
+    Schema,
+    set,
+    string,
+    tuple,
+    union,
+    unknown,
+} from '../src/schema';
+import { generate, generateInvalid } from '../src/generate';
+import { fromJSONSchema } from '../src/jsonSchema';
+
+interface Category {
+    name: string;
+    children: Category[];
+}
+
+const category: Schema<Category> = lazy(() => object({ name: string().min(1), children: array(category) }));
+
+const schemas: [string, Schema][] = [
+    ['primitives', tuple(string(), number(), boolean(), bigint(), date(), instanceOf(Date), unknown())],
+    ['literals and enums', tuple(literal('a'), enumOf(['a', 'b', 1]))],
+    ['string checks', tuple(string().min(3).max(5), string().length(8), string().startsWith('id_').min(10))],
+    [
+        'string patterns',
+        tuple(
+            string().regex(/^[0-9]{4}$/),
+            string().regex(/^[A-Z][a-z]+(-[A-Z][a-z]+)*$/),
+            string().regex(/^(?:\+\d{1,3} )?\d{3}-\d{4}$/),
+            string().regex(/^[^@\s]+@[a-z]+\.(com|org)$/i),
+            string().regex(/\d+/).min(3).max(6),
+            fromJSONSchema({ type: 'string', pattern: '^[a-f0-9]{8}$' }),
+        ),
+    ],
+    ['string formats', tuple(string().email(), string().uuid(), string().url(), string().email().max(20))],
+    [
+        'number checks',
+        tuple(
+            number().int().min(1).max(3),
+            number().positive().lt(1),
+            number().gt(-5).lt(-4),
+            number().multipleOf(7).min(100),
+            number().int().multipleOf(0.5).max(-10),
+            coerce.number().min(0),
+        ),
+    ],
+    [
+        'objects',
+        object({
+            id: number().int().positive(),
+            name: optional(string()),
+            email: nullable(string().email()),
+            nickname: nullish(string()),
+            tags: array(string()).min(1).max(3),
+            page: number().default(1),
+        }).strict(),
+    ],
+    ['catchall objects', object({ id: number() }).catchall(boolean())],
+    ['collections', tuple(record(string(), number()), map(number(), string()), set(enumOf(['a', 'b'])))],
+    ['unions', array(union(string(), number(), object({ a: boolean() })))],
+    [
+        'discriminated unions',
+        discriminatedUnion('kind', [
+            object({ kind: literal('circle'), radius: number().positive() }),
+            object({ kind: literal('square'), side: number().positive() }),
+        ]),
+    ],
+    ['intersections', intersection(object({ a: string() }), object({ b: number() }).strip().partial())],
+    ['readonly', readonly(array(readonly(object({ a: string() }))))],
+    ['transforms and refinements', string().transform((s) => s.length)],
+    [
+        'refinements',
+        object({ min: number(), max: number() }).refine(({ min, max }) => min <= max, 'min must not exceed max'),
+    ],
+    ['recursive schemas', category],
+];
+
+describe('generate', () => {
+    for (const [name, schema] of schemas) {
+        it(`generates values the schema accepts for ${name}`, () => {
+            for (let seed = 0; seed < 50; seed++) {
+                const value = generate(schema, { seed });
+                expect(schema.validate(value).success).toBe(true);
+            }
+        });
+    }
+
+    it('generates the same values for the same seed', () => {
+        const schema = object({ name: string(), scores: array(number()), nested: category });
+        expect(generate(schema, { seed: 42 })).toEqual(generate(schema, { seed: 42 }));
+        expect(generate(schema, { seed: 42 })).not.toEqual(generate(schema, { seed: 43 }));
+    });
+
+    it('types values as inputs of the schema', () => {
+        const schema = object({ page: number().default(1), search: string().transform((s) => s.trim()) });
+        const value: { page?: number; search: string } = generate(schema, { seed: 1 });
+        expect(typeof value.search).toBe('string');
+    });
+
+    it('throws for schemas it cannot generate values for', () => {
+        expect(() => generate(never())).toThrow('Cannot generate values for never schemas');
+        expect(() => generate(instanceOf(Map))).toThrow('Cannot generate instances of Map');
+        expect(() => generate(number().refine(() => false))).toThrow(
+            'Cannot generate a value passing the refinement after 100 attempts',
+        );
+        expect(() => generate(string().regex(/^(?=a)b$/))).toThrow(
+            'Cannot generate a string passing all of its checks',
+        );
+        expect(() => generate(number().int().min(1).max(1.5).multipleOf(2))).toThrow(
+            'Cannot generate a number passing all of its checks',
+        );
+    });
+});
+
+describe('generateInvalid', () => {
+    for (const [name, schema] of schemas) {
+        it(`generates values the schema rejects for ${name}`, () => {
+            for (let seed = 0; seed < 50; seed++) {
+                expect(schema.validate(generateInvalid(schema, { seed })).success).toBe(false);
+            }
+        });
+    }
+
+    it('replaces a single part of a valid value', () => {
+        const schema = tuple(string(), number(), boolean());
+        for (let seed = 0; seed < 20; seed++) {
+            const valid = generate(schema, { seed });
+            const invalid = generateInvalid(schema, { seed });
+            if (Array.isArray(invalid) && invalid.length === valid.length) {
+                expect(valid.filter((item, i) => item !== invalid[i])).toHaveLength(1);
+            } else {
+                expect(schema.validate(invalid).success).toBe(false); // the whole value was replaced
+            }
+        }
+    });
+
+    it('throws for schemas accepting anything', () => {
+        expect(() => generateInvalid(unknown())).toThrow('Cannot generate a value the schema rejects');
+    });
+});
@@ -0,0 +1,204 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { validateRequest, ValidatedRequest, withValidation } from '../src/http';
+import { array, coerce, literal, object, optional, string, union } from '../src/schema';
+
+const schemas = {
+    params: object({ id: string().uuid() }),
+    query: object({ page: optional(coerce.number().int()), tag: optional(union(string(), array(string()))) }),
+    headers: object({ 'x-api-key': string().min(8) }),
+    body: object({ name: string().min(1), role: union(literal('admin'), literal('user')) }),
+};
+
+const id = '6b2f2c3e-4a8d-4c4e-9d39-2f4c7a6b1e0f';
+const headers = { 'x-api-key': 'secret-key' };
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+/** Starts a server on a random port, and sends it one request. */
+const request = (
+    handler: Handler,
+    {
+        path = '/',
+        method = 'POST',
+        headers = {},
+        body,
+    }: {
+        path?: string;
+        method?: string;
+        headers?: Record<string, string>;
+        body?: string;
+    },
+) =>
+    new Promise<{ status: number; body: any }>((resolve, reject) => {
+        const server = http.createServer(handler).listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            const req = http.request({ host: '127.0.0.1', port, path, method, headers }, (res) => {
+                const chunks: Buffer[] = [];
+                res.on('data', (chunk) => chunks.push(chunk));
+                res.on('end', () => {
+                    server.close();
+                    const text = Buffer.concat(chunks).toString();
+                    resolve({ status: res.statusCode as number, body: text ? JSON.parse(text) : undefined });
+                });
+            });
+            req.on('error', (error) => {
+                server.close();
+                reject(error);
+            });
+            req.end(body);
+        });
+    });
+
+const json = (res: ServerResponse, value: unknown) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(value));
+};
+
+describe('withValidation', () => {
+    const handler = withValidation(
+        { query: schemas.query, headers: schemas.headers, body: schemas.body },
+        (_req, res, validated) => {
+            const { query, body } = validated;
+            json(res, { query, body, key: validated.headers['x-api-key'] });
+        },
+    );
+
+    it('calls the handler with the validated values', async () => {
+        const response = await request(handler, {
+            path: '/users?page=2&tag=a&tag=b',
+            headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+            body: JSON.stringify({ name: 'Ada', role: 'admin' }),
+        });
+        expect(response).toEqual({
+            status: 200,
+            body: { query: { page: 2, tag: ['a', 'b'] }, body: { name: 'Ada', role: 'admin' }, key: 'secret-key' },
+        });
+    });
+
+    it('decodes URL-encoded bodies', async () => {
+        const response = await request(handler, {
+            headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: 'name=Grace+Hopper&role=user',
+        });
+        expect(response.body.body).toEqual({ name: 'Grace Hopper', role: 'user' });
+    });
+
+    it('responds with a 400 listing every failing field', async () => {
+        const response = await request(handler, {
+            path: '/?page=1.5',
+            headers: { 'x-api-key': 'short', 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name: '', role: 'root' }),
+        });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid request');
+        expect(response.body.issues.map(({ location, path, code }: any) => [location, path, code])).toEqual([
+            ['query', ['page'], 'not_integer'],
+            ['headers', ['x-api-key'], 'too_short'],
+            ['body', ['name'], 'too_short'],
+            ['body', ['role'], 'invalid_union'],
+        ]);
+    });
+
+    it('rejects the keys polluting prototypes in queries and URL-encoded bodies', async () => {
+        const response = await request(handler, {
+            path: '/?__proto__=a&__proto__=b',
+            headers: { ...headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: 'name=Ada&role=user&__proto__=a',
+        });
+        expect(response.status).toBe(400);
+        expect(response.body.issues.map(({ location, path, code }: any) => [location, path, code])).toEqual([
+            ['query', ['__proto__'], 'forbidden_key'],
+            ['body', ['__proto__'], 'forbidden_key'],
+        ]);
+    });
+
+    it('rejects malformed, unsupported and oversized bodies', async () => {
+        const invalid = await request(handler, {
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: '{"name":',
+        });
+        expect(invalid.status).toBe(400);
+        expect(invalid.body.issues[0]).toMatchObject({ location: 'body', path: [], code: 'custom' });
+        expect(invalid.body.issues[0].message).toMatch(/^Invalid JSON: /);
+
+        const unsupported = await request(handler, {
+            headers: { ...headers, 'Content-Type': 'application/xml' },
+            body: '<user/>',
+        });
+        expect(unsupported).toEqual({
+            status: 415,
+            body: { error: 'Unsupported content type application/xml', issues: [] },
+        });
+
+        const limited = withValidation({ body: string() }, (_req, res) => res.end(), { limit: 10 });
+        expect(await request(limited, { body: 'x'.repeat(100) })).toEqual({
+            status: 413,
+            body: { error: 'The body is larger than 10 bytes', issues: [] },
+        });
+    });
+
+    it('responds with a 500 when the handler fails', async () => {
+        const failing = withValidation({}, async () => {
+            throw new Error('Unexpected');
+        });
+        expect(await request(failing, { method: 'GET' })).toEqual({
+            status: 500,
+            body: { error: 'Internal server error', issues: [] },
+        });
+    });
+});
+
+describe('validateRequest', () => {
+    type Validated = ValidatedRequest<typeof schemas>;
+
+    /** Mimics an Express route matching /users/:id, after a JSON body parser. */
+    const app = (
+        ...middlewares: ((req: any, res: ServerResponse, next: (error?: unknown) => void) => void)[]
+    ): Handler => (req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+            const text = Buffer.concat(chunks).toString();
+            Object.assign(req, {
+                params: { id: (req.url as string).split('?')[0].split('/')[2] },
+                body: text ? JSON.parse(text) : undefined,
+            });
+            const next = (index: number) => (error?: unknown) => {
+                if (error) {
+                    res.statusCode = 500;
+                    res.end();
+                } else if (index < middlewares.length) {
+                    middlewares[index](req, res, next(index + 1));
+                }
+            };
+            next(0)();
+        });
+    };
+
+    const route = app(validateRequest(schemas), (req: { validated: Validated }, res) => {
+        const { params, body } = req.validated;
+        json(res, { id: params.id, name: body.name });
+    });
+
+    it('sets the validated values on the request', async () => {
+        const response = await request(route, {
+            path: `/users/${id}`,
+            headers,
+            body: JSON.stringify({ name: 'Ada', role: 'user' }),
+        });
+        expect(response).toEqual({ status: 200, body: { id, name: 'Ada' } });
+    });
+
+    it('responds with a 400 without calling the next middleware', async () => {
+        const response = await request(route, {
+            path: '/users/42',
+            headers,
+            body: JSON.stringify({ name: 'Ada', role: 'user' }),
+        });
+        expect(response.status).toBe(400);
+        expect(response.body.issues).toEqual([
+            { location: 'params', path: ['id'], code: 'invalid_string', message: expect.any(String) },
+        ]);
+    });
+});
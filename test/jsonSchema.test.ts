@@ -0,0 +1,326 @@
+import {
+    array,
+    bigint,
+    boolean,
+    date,
+    discriminatedUnion,
+    enumOf,
+    Failure,
+    intersection,
+    lazy,
+    literal,
+    never,
+    nullType,
+    number,
+    object,
+    optional,
+    nullable,
+    record,
+    Schema,
+    string,
+    tuple,
+    union,
+    unknown,
+} from '../src/schema';
+import { fromJSONSchema, toJSONSchema } from '../src/jsonSchema';
+
+const $schema = 'https://json-schema.org/draft/2020-12/schema';
+
+describe('toJSONSchema', () => {
+    it('converts primitives', () => {
+        expect(toJSONSchema(string())).toEqual({ $schema, type: 'string' });
+        expect(toJSONSchema(number())).toEqual({ $schema, type: 'number' });
+        expect(toJSONSchema(boolean())).toEqual({ $schema, type: 'boolean' });
+        expect(toJSONSchema(nullType())).toEqual({ $schema, type: 'null' });
+        expect(toJSONSchema(unknown())).toEqual({ $schema });
+        expect(toJSONSchema(never())).toEqual({ $schema, not: {} });
+        expect(toJSONSchema(literal('a'))).toEqual({ $schema, const: 'a' });
+        expect(toJSONSchema(enumOf(['a', 'b']))).toEqual({ $schema, enum: ['a', 'b'] });
+    });
+
+    it('converts constraints', () => {
+        expect(toJSONSchema(string().min(1).max(3).regex(/^a/).startsWith('a.'))).toEqual({
+            $schema,
+            type: 'string',
+            minLength: 1,
+            maxLength: 3,
+            pattern: '^a',
+            allOf: [{ pattern: '^a\\.' }],
+        });
+        expect(toJSONSchema(string().email())).toEqual({ $schema, type: 'string', format: 'email' });
+        expect(toJSONSchema(string().url())).toEqual({ $schema, type: 'string', format: 'uri' });
+        expect(toJSONSchema(number().int().positive().max(10).multipleOf(2))).toEqual({
+            $schema,
+            type: 'integer',
+            exclusiveMinimum: 0,
+            maximum: 10,
+            multipleOf: 2,
+        });
+        expect(toJSONSchema(array(string()).min(1).max(2))).toEqual({
+            $schema,
+            type: 'array',
+            items: { type: 'string' },
+            minItems: 1,
+            maxItems: 2,
+        });
+    });
+
+    it('converts objects, dropping optional keys from required', () => {
+        const schema = object({ a: string(), b: optional(number()), c: number().default(1), d: nullable(string()) });
+        expect(toJSONSchema(schema)).toEqual({
+            $schema,
+            type: 'object',
+            properties: {
+                a: { type: 'string' },
+                b: { type: 'number' },
+                c: { type: 'number', default: 1 },
+                d: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+            },
+            required: ['a', 'd'],
+        });
+        expect(toJSONSchema(object({ a: string() }).strict()).additionalProperties).toBe(false);
+        expect(toJSONSchema(object({}).catchall(number())).additionalProperties).toEqual({ type: 'number' });
+        expect(toJSONSchema(record(string(), number()))).toEqual({
+            $schema,
+            type: 'object',
+            additionalProperties: { type: 'number' },
+        });
+    });
+
+    it('converts tuples to prefixItems', () => {
+        expect(toJSONSchema(tuple(string(), number()))).toEqual({
+            $schema,
+            type: 'array',
+            prefixItems: [{ type: 'string' }, { type: 'number' }],
+            items: false,
+            minItems: 2,
+        });
+    });
+
+    it('converts unions and intersections', () => {
+        expect(toJSONSchema(union(string(), number()))).toEqual({
+            $schema,
+            anyOf: [{ type: 'string' }, { type: 'number' }],
+        });
+        expect(toJSONSchema(intersection(object({ a: string() }), object({ b: string() }))).allOf).toHaveLength(2);
+        const shape = discriminatedUnion('kind', [object({ kind: literal('a') }), object({ kind: literal('b') })]);
+        expect(toJSONSchema(shape).oneOf).toHaveLength(2);
+    });
+
+    it('converts the input side of transforms and refinements', () => {
+        const schema = string()
+            .refine((s) => s !== '')
+            .transform((s) => s.length);
+        expect(toJSONSchema(schema)).toEqual({ $schema, type: 'string' });
+    });
+
+    it('emits descriptions', () => {
+        expect(toJSONSchema(object({ a: string().describe('The a') }))).toEqual({
+            $schema,
+            type: 'object',
+            properties: { a: { type: 'string', description: 'The a' } },
+            required: ['a'],
+        });
+    });
+
+    it('moves named and reused schemas to $defs', () => {
+        const id = string().uuid();
+        const user = object({ id, name: string() }).named('User');
+        expect(toJSONSchema(object({ id, author: user, reviewers: array(user) }))).toEqual({
+            $schema,
+            type: 'object',
+            properties: {
+                id: { $ref: '#/$defs/Schema1' },
+                author: { $ref: '#/$defs/User' },
+                reviewers: { type: 'array', items: { $ref: '#/$defs/User' } },
+            },
+            required: ['id', 'author', 'reviewers'],
+            $defs: {
+                User: {
+                    type: 'object',
+                    properties: { id: { $ref: '#/$defs/Schema1' }, name: { type: 'string' } },
+                    required: ['id', 'name'],
+                },
+                Schema1: { type: 'string', format: 'uuid' },
+            },
+        });
+    });
+
+    it('references recursive schemas', () => {
+        interface Comment {
+            text: string;
+            replies: Comment[];
+        }
+        const comment: Schema<Comment> = lazy(() => object({ text: string(), replies: array(comment) })).named(
+            'Comment',
+        );
+        expect(toJSONSchema(comment)).toEqual({
+            $schema,
+            $ref: '#/$defs/Comment',
+            $defs: {
+                Comment: {
+                    type: 'object',
+                    properties: {
+                        text: { type: 'string' },
+                        replies: { type: 'array', items: { $ref: '#/$defs/Comment' } },
+                    },
+                    required: ['text', 'replies'],
+                },
+            },
+        });
+    });
+
+    it('throws for schemas JSON cannot represent', () => {
+        expect(() => toJSONSchema(object({ a: date() }))).toThrow('Cannot convert date schemas to JSON Schema');
+        expect(() => toJSONSchema(bigint())).toThrow('Cannot convert bigint schemas to JSON Schema');
+    });
+});
+
+describe('fromJSONSchema', () => {
+    const valid = (schema: Schema, value: unknown) => schema.validate(value).success;
+
+    it('builds primitives with their constraints', () => {
+        const name = fromJSONSchema({ type: 'string', minLength: 1, maxLength: 3, pattern: '^a' });
+        expect(valid(name, 'ab')).toBe(true);
+        expect(valid(name, '')).toBe(false);
+        expect(valid(name, 'ba')).toBe(false);
+        expect(valid(fromJSONSchema({ type: 'string', format: 'email' }), 'a@b.c')).toBe(true);
+        expect(valid(fromJSONSchema({ type: 'string', format: 'email' }), 'a')).toBe(false);
+
+        const count = fromJSONSchema({ type: 'integer', exclusiveMinimum: 0, maximum: 10, multipleOf: 2 });
+        expect(valid(count, 10)).toBe(true);
+        expect(valid(count, 0)).toBe(false);
+        expect(valid(count, 3)).toBe(false);
+        expect(valid(count, 12)).toBe(false);
+
+        expect(valid(fromJSONSchema({ type: ['string', 'null'] }), null)).toBe(true);
+        expect(valid(fromJSONSchema({ type: 'boolean' }), 1)).toBe(false);
+        expect(valid(fromJSONSchema(true), 1)).toBe(true);
+        expect(valid(fromJSONSchema(false), 1)).toBe(false);
+    });
+
+    it('builds enums and consts', () => {
+        expect(valid(fromJSONSchema({ enum: ['a', 1] }), 1)).toBe(true);
+        expect(valid(fromJSONSchema({ enum: ['a', 1] }), 'b')).toBe(false);
+        expect(valid(fromJSONSchema({ enum: [true, null] }), null)).toBe(true);
+        expect(valid(fromJSONSchema({ type: 'string', enum: ['a', 1] }), 1)).toBe(false);
+        expect(valid(fromJSONSchema({ const: 'a' }), 'a')).toBe(true);
+        expect(valid(fromJSONSchema({ const: 'a' }), 'b')).toBe(false);
+    });
+
+    it('builds objects', () => {
+        const user = fromJSONSchema({
+            type: 'object',
+            properties: { name: { type: 'string' }, age: { type: 'number' } },
+            required: ['name', 'id'],
+            additionalProperties: false,
+        });
+        expect(user.validate({ name: 'a', id: 1 })).toEqual({ success: true, item: { name: 'a', id: 1 } });
+        expect((user.validate({ id: 1 }) as Failure).error.issues[0].path).toEqual(['name']);
+        expect((user.validate({ name: 'a' }) as Failure).error.issues[0].path).toEqual(['id']);
+        expect((user.validate({ name: 'a', id: 1, age: 'b' }) as Failure).error.issues[0].path).toEqual(['age']);
+        expect((user.validate({ name: 'a', id: 1, admin: true }) as Failure).error.issues[0].code).toBe(
+            'unrecognized_keys',
+        );
+
+        const counts = fromJSONSchema({ type: 'object', additionalProperties: { type: 'number' } });
+        expect(valid(counts, { a: 1 })).toBe(true);
+        expect(valid(counts, { a: 'b' })).toBe(false);
+    });
+
+    it('builds arrays and tuples', () => {
+        const tags = fromJSONSchema({ type: 'array', items: { type: 'string' }, minItems: 1 });
+        expect(valid(tags, ['a'])).toBe(true);
+        expect(valid(tags, [])).toBe(false);
+        expect(valid(tags, [1])).toBe(false);
+
+        const pair = fromJSONSchema({
+            type: 'array',
+            prefixItems: [{ type: 'string' }, { type: 'number' }],
+            items: false,
+            minItems: 2,
+        });
+        expect(valid(pair, ['a', 1])).toBe(true);
+        expect(valid(pair, ['a', 1, 2])).toBe(false);
+    });
+
+    it('builds combinations', () => {
+        const id = fromJSONSchema({ anyOf: [{ type: 'string' }, { type: 'integer' }] });
+        expect(valid(id, 'a')).toBe(true);
+        expect(valid(id, 1.5)).toBe(false);
+
+        const both = fromJSONSchema({ allOf: [{ required: ['a'] }, { required: ['b'] }] });
+        expect(valid(both, { a: 1, b: 2 })).toBe(true);
+        expect(valid(both, { a: 1 })).toBe(false);
+
+        const exactlyOne = fromJSONSchema({ oneOf: [{ type: 'number', minimum: 0 }, { type: 'integer' }] });
+        expect(valid(exactlyOne, 0.5)).toBe(true);
+        expect(valid(exactlyOne, -1)).toBe(true);
+        expect(valid(exactlyOne, 1)).toBe(false);
+    });
+
+    it('only constrains the values of the types the keywords apply to when there is no type', () => {
+        const obj = fromJSONSchema({ properties: { a: { type: 'string' } } });
+        expect(valid(obj, 5)).toBe(true);
+        expect(valid(obj, { a: 'a' })).toBe(true);
+        expect(valid(obj, { a: 1 })).toBe(false);
+
+        const positive = fromJSONSchema({ minimum: 0 });
+        expect(valid(positive, 'x')).toBe(true);
+        expect(valid(positive, null)).toBe(true);
+        expect(valid(positive, 1)).toBe(true);
+        expect(valid(positive, -1)).toBe(false);
+
+        const short = fromJSONSchema({ maxLength: 1, minItems: 1 });
+        expect(valid(short, 'a')).toBe(true);
+        expect(valid(short, 'ab')).toBe(false);
+        expect(valid(short, [])).toBe(false);
+        expect(valid(short, 2)).toBe(true);
+    });
+
+    it('resolves local references', () => {
+        const tree = fromJSONSchema({
+            $ref: '#/$defs/Node',
+            $defs: {
+                Node: {
+                    type: 'object',
+                    properties: { value: { type: 'number' }, children: { type: 'array', items: { $ref: '#' } } },
+                    required: ['value', 'children'],
+                },
+            },
+        });
+        expect(valid(tree, { value: 1, children: [{ value: 2, children: [] }] })).toBe(true);
+        expect(
+            (tree.validate({ value: 1, children: [{ value: 'a', children: [] }] }) as Failure).error.issues[0].path,
+        ).toEqual(['children', 0, 'value']);
+    });
+
+    it('round trips through toJSONSchema', () => {
+        const doc = toJSONSchema(
+            object({
+                name: string().min(1),
+                tags: array(enumOf(['a', 'b'])).max(2),
+                pair: tuple(string(), number().int().gt(0)),
+                nickname: optional(nullable(string())),
+            }),
+        );
+        expect(toJSONSchema(fromJSONSchema(doc))).toEqual(doc);
+        expect(valid(fromJSONSchema(toJSONSchema(never())), null)).toBe(false);
+    });
+
+    it('throws for keywords it cannot check', () => {
+        expect(() => fromJSONSchema({ type: 'object', properties: { a: { not: { type: 'string' } } } })).toThrow(
+            "Unsupported JSON Schema keyword 'not' at #/properties/a",
+        );
+        expect(() => fromJSONSchema({ type: 'string', format: 'date-time' })).toThrow(
+            "Unsupported format 'date-time' at #/format",
+        );
+        expect(() => fromJSONSchema({ type: 'string', minimum: 1 })).toThrow(
+            "Keyword 'minimum' does not apply to type string at #",
+        );
+        expect(() => fromJSONSchema({ $ref: 'other.json#/User' })).toThrow("Cannot resolve $ref 'other.json#/User'");
+        expect(() => fromJSONSchema({ type: 'array', prefixItems: [{ type: 'string' }] })).toThrow(
+            'prefixItems are only supported for tuples of a fixed length',
+        );
+    });
+});
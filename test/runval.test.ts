@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { run } from '../bin/runval';
+
+const fixture = path.join(__dirname, 'fixtures', 'schemas.ts');
+
+const runval = async (args: string[], stdin = '') => {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const out: string[] = [];
+    const err: string[] = [];
+    stdout.on('data', (chunk) => out.push(String(chunk)));
+    stderr.on('data', (chunk) => err.push(String(chunk)));
+    const code = await run(args, { stdin: Readable.from([stdin]), stdout, stderr, cwd: dir });
+    return { code, stdout: out.join(''), stderr: err.join('') };
+};
+
+let dir: string;
+
+beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runval-'));
+    await fs.writeFile(path.join(dir, 'one.json'), JSON.stringify({ id: 1, name: 'Ada' }));
+    await fs.writeFile(
+        path.join(dir, 'many.json'),
+        JSON.stringify([
+            { id: 1, name: 'Ada' },
+            { id: 1.5, name: '' },
+            { id: 3, name: 'Alan', email: 'alan' },
+        ]),
+    );
+    await fs.writeFile(
+        path.join(dir, 'lines.ndjson'),
+        ['{"id":1,"name":"Ada"}', '', '{"id":"2","name":"Grace"}', '{"id":', '{"id":4,"name":"Alan"}'].join('\n'),
+    );
+});
+
+afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+describe('runval', () => {
+    it('validates a JSON document', async () => {
+        expect(await runval([fixture, '--export', 'user', 'one.json'])).toEqual({ code: 0, stdout: '', stderr: '' });
+    });
+
+    it('validates the elements of JSON arrays, unless the schema is an array', async () => {
+        const result = await runval([fixture, '--export', 'user', 'many.json']);
+        expect(result.code).toBe(1);
+        expect(result.stdout).toBe(
+            [
+                'many.json[1]: id: Expected an integer',
+                'many.json[1]: name: Expected at least 1 characters',
+                'many.json[2]: email: Expected an email address',
+                '',
+            ].join('\n'),
+        );
+        expect((await runval([fixture, '--export', 'users', 'many.json'])).stdout).toContain('many.json: 1.id:');
+    });
+
+    it('validates NDJSON line by line, reporting invalid JSON', async () => {
+        const result = await runval([fixture, '--export', 'user', 'lines.ndjson', '--summary']);
+        expect(result.code).toBe(1);
+        expect(result.stdout).toMatch(
+            /^lines\.ndjson:3: id: Expected number, but got string\nlines\.ndjson:4: Invalid JSON: .*\n4 records: 2 valid, 2 invalid\n$/,
+        );
+    });
+
+    it('reads stdin, falling back to NDJSON', async () => {
+        const ndjson = '{"id":1,"name":"Ada"}\n{"id":2}\n';
+        const result = await runval([fixture, '--export', 'user'], ndjson);
+        expect(result.stdout).toBe('stdin:2: name: Expected string, but got undefined\n');
+        expect((await runval([fixture, '--export', 'user', '-'], '{"id":1,"name":"Ada"}')).code).toBe(0);
+    });
+
+    it('prints failures as JSON', async () => {
+        const result = await runval([fixture, '--export', 'user', 'many.json', '--output', 'json', '--summary']);
+        expect(JSON.parse(result.stdout)).toEqual({
+            failures: [
+                {
+                    source: 'many.json',
+                    index: 1,
+                    issues: [
+                        { code: 'not_integer', path: ['id'], message: 'Expected an integer' },
+                        { code: 'too_short', path: ['name'], message: 'Expected at least 1 characters' },
+                    ],
+                },
+                {
+                    source: 'many.json',
+                    index: 2,
+                    issues: [{ code: 'invalid_string', path: ['email'], message: 'Expected an email address' }],
+                },
+            ],
+            summary: { records: 3, valid: 1, invalid: 2, stopped: false },
+        });
+    });
+
+    it('stops after --max-errors invalid records', async () => {
+        const result = await runval([fixture, '--export', 'user', 'many.json', 'lines.ndjson', '--max-errors', '3']);
+        expect(result.code).toBe(1);
+        expect(
+            result.stdout
+                .split('\n')
+                .filter(Boolean)
+                .map((line) => line.split(':')[0]),
+        ).toEqual(['many.json[1]', 'many.json[1]', 'many.json[2]', 'lines.ndjson']);
+    });
+
+    it('reports usage errors', async () => {
+        expect(await runval([fixture, 'one.json'])).toMatchObject({
+            code: 2,
+            stderr: expect.stringContaining('exports several schemas (user, users), pick one with --export'),
+        });
+        expect(await runval([fixture, '--format', 'xml'])).toMatchObject({
+            code: 2,
+            stderr: expect.stringContaining("Unknown format 'xml'"),
+        });
+        expect(await runval([fixture, '--export', 'user', 'missing.json'])).toMatchObject({
+            code: 2,
+            stderr: expect.stringContaining('ENOENT'),
+        });
+        expect((await runval(['--help'])).stdout).toContain('Usage: runval');
+    });
+});
@@ -10,26 +10,57 @@ import {
     Infer,
     boolean,
     optional,
+    nullable,
+    nullish,
+    readonly,
     toGuard,
     or,
     and,
+    coerce,
+    Input,
+    Output,
+    nullType,
+    undefinedType,
+    bigint,
+    symbol,
+    date,
+    instanceOf,
+    fn,
+    unknown,
+    never,
+    literal,
+    enumOf,
+    nativeEnum,
+    union,
+    discriminatedUnion,
+    intersection,
+    record,
+    map,
+    set,
+    lazy,
+    setDefaultLimits,
+    Brand,
+    parse,
+    assert,
 } from '../src/schema';
+import { InvalidIntersectionIssue, InvalidUnionIssue, Issue, ValidationError } from '../src/errors';
 
 interface Test<T = unknown> {
     name: string;
     schema: Schema<T>;
     item: T;
-    expectedError?: Error;
+    expectedIssues?: Issue[];
 }
 
-const test = ({ name, schema, item, expectedError }: Test) => {
+const test = ({ name, schema, item, expectedIssues }: Test) => {
     it(name, () => {
         const out = schema.validate(item);
-        if (expectedError) {
+        if (expectedIssues) {
             expect(out).toEqual<Failure>({
                 success: false,
-                error: expectedError,
+                error: new ValidationError(expectedIssues),
             });
+            expect((out as Failure).error.issues).toEqual(expectedIssues);
         } else {
             expect(out).toEqual<Success<unknown>>({
                 success: true,
@@ -161,9 +192,15 @@ describe('rejects invalid items', () => {
                 foo: 1,
                 foobar: 'abc',
             },
-            expectedError: new Error(
-                `Got invalid type for field 'bar': 'Invalid primitive. Expected string, but got undefined'`,
-            ),
+            expectedIssues: [
+                {
+                    code: 'invalid_type',
+                    path: ['bar'],
+                    expected: 'string',
+                    received: 'undefined',
+                    message: 'Expected string, but got undefined',
+                },
+            ],
         },
         {
             name: 'rejects invalid nested object',
@@ -177,9 +214,15 @@ describe('rejects invalid items', () => {
                     foo: 'hello',
                 },
             },
-            expectedError: new Error(
-                `Got invalid type for field 'bar': 'Got invalid type for field 'foo': 'Invalid primitive. Expected number, but got string''`,
-            ),
+            expectedIssues: [
+                {
+                    code: 'invalid_type',
+                    path: ['bar', 'foo'],
+                    expected: 'number',
+                    received: 'string',
+                    message: 'Expected number, but got string',
+                },
+            ],
         },
         {
             name: 'rejects simple object with invalid nested array',
@@ -191,9 +234,73 @@ describe('rejects invalid items', () => {
                 foo: 1,
                 bar: [1, 2, '3'],
             },
-            expectedError: new Error(
-                `Got invalid type for field 'bar': 'Invalid primitive. Expected number, but got string'`,
-            ),
+            expectedIssues: [
+                {
+                    code: 'invalid_type',
+                    path: ['bar', 2],
+                    expected: 'number',
+                    received: 'string',
+                    message: 'Expected number, but got string',
+                },
+            ],
+        },
+        {
+            name: 'rejects array of objects with the full path',
+            schema: object({
+                users: array(object({ address: object({ zip: string() }) })),
+            }),
+            item: {
+                users: [{ address: { zip: '1000' } }, { address: { zip: 1000 } }],
+            },
+            expectedIssues: [
+                {
+                    code: 'invalid_type',
+                    path: ['users', 1, 'address', 'zip'],
+                    expected: 'string',
+                    received: 'number',
+                    message: 'Expected string, but got number',
+                },
+            ],
+        },
+        {
+            name: 'rejects invalid tuple element',
+            schema: tuple(number(), string()),
+            item: [1, null],
+            expectedIssues: [
+                {
+                    code: 'invalid_type',
+                    path: [1],
+                    expected: 'string',
+                    received: 'null',
+                    message: 'Expected string, but got null',
+                },
+            ],
+        },
+        {
+            name: 'rejects tuple that is too short',
+            schema: tuple(number(), string()),
+            item: [1],
+            expectedIssues: [
+                {
+                    code: 'too_short',
+                    path: [],
+                    minimum: 2,
+                    message: 'Expected a tuple of length 2, but got 1',
+                },
+            ],
+        },
+        {
+            name: 'rejects tuple that is too long',
+            schema: tuple(number()),
+            item: [1, 2],
+            expectedIssues: [
+                {
+                    code: 'too_long',
+                    path: [],
+                    maximum: 1,
+                    message: 'Expected a tuple of length 1, but got 2',
+                },
+            ],
         },
         {
             name: 'rejects both invalid or',
@@ -203,9 +310,33 @@ describe('rejects invalid items', () => {
             item: {
                 foo: 'hello',
             },
-            expectedError: new Error(
-                `Got invalid type for field 'foo': 'Failed or case. Left: Invalid primitive. Expected boolean, but got string, Right: Invalid primitive. Expected number, but got string'`,
-            ),
+            expectedIssues: [
+                {
+                    code: 'invalid_union',
+                    path: ['foo'],
+                    branches: [
+                        [
+                            {
+                                code: 'invalid_type',
+                                path: ['foo'],
+                                expected: 'boolean',
+                                received: 'string',
+                                message: 'Expected boolean, but got string',
+                            },
+                        ],
+                        [
+                            {
+                                code: 'invalid_type',
+                                path: ['foo'],
+                                expected: 'number',
+                                received: 'string',
+                                message: 'Expected number, but got string',
+                            },
+                        ],
+                    ],
+                    message: 'Value does not match any branch of the union',
+                },
+            ],
         },
         {
             name: 'rejects if invalid and',
@@ -217,15 +348,1093 @@ describe('rejects invalid items', () => {
                     foo: 1,
                 },
             },
-            expectedError: new Error(
-                `Got invalid type for field 'foo': 'Failed and case. Got invalid type for field 'bar': 'Invalid primitive. Expected number, but got undefined''`,
-            ),
+            expectedIssues: [
+                {
+                    code: 'invalid_intersection',
+                    path: ['foo'],
+                    branches: [
+                        [],
+                        [
+                            {
+                                code: 'invalid_type',
+                                path: ['foo', 'bar'],
+                                expected: 'number',
+                                received: 'undefined',
+                                message: 'Expected number, but got undefined',
+                            },
+                        ],
+                    ],
+                    message: 'Value does not match every branch of the intersection',
+                },
+            ],
         },
     ];
 
     tests.forEach(test);
 });
 
+describe('abortEarly', () => {
+    const schema = object({
+        name: string(),
+        tags: array(string()),
+        point: tuple(number(), number()),
+        address: optional(object({ zip: string(), city: string() })),
+        id: or(number(), object({ key: string(), scope: string() })),
+    });
+
+    const item = {
+        name: 1,
+        tags: ['a', 2, 3],
+        point: ['x', 'y'],
+        address: { zip: 1, city: 2 },
+        id: { key: 1, scope: 2 },
+    };
+
+    const paths = (result: ReturnType<typeof schema.validate>) => (result as Failure).error.issues.map((i) => i.path);
+
+    it('stops at the first failure by default', () => {
+        expect(paths(schema.validate(item))).toEqual([['name']]);
+    });
+
+    it('collects every failure when disabled', () => {
+        const result = schema.validate(item, { abortEarly: false });
+        expect(paths(result)).toEqual([
+            ['name'],
+            ['tags', 1],
+            ['tags', 2],
+            ['point', 0],
+            ['point', 1],
+            ['address', 'zip'],
+            ['address', 'city'],
+            ['id'],
+        ]);
+        const union = (result as Failure).error.issues[7] as InvalidUnionIssue;
+        expect(union.branches[1].map((i) => i.path)).toEqual([
+            ['id', 'key'],
+            ['id', 'scope'],
+        ]);
+    });
+
+    it('propagates through and', () => {
+        const result = and(object({ a: number(), b: number() }), object({ c: number() })).validate(
+            {},
+            { abortEarly: false },
+        );
+        const intersection = (result as Failure).error.issues[0] as InvalidIntersectionIssue;
+        expect(intersection.branches.map((branch) => branch.map((i) => i.path))).toEqual([[['a'], ['b']], [['c']]]);
+    });
+});
+
+describe('transforms', () => {
+    it('returns the transformed value', () => {
+        const schema = string().transform((s) => s.trim());
+        expect(schema.validate('  abc ')).toEqual({ success: true, item: 'abc' });
+    });
+
+    it('does not transform invalid values', () => {
+        const fn = jest.fn();
+        expect(number().transform(fn).validate('1').success).toBe(false);
+        expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('fills in defaults for undefined values only', () => {
+        const schema = object({ page: number().default(1), name: nullish(string()).default('anonymous') });
+        expect(schema.validate({})).toEqual({ success: true, item: { page: 1, name: 'anonymous' } });
+        expect(schema.validate({ page: 2, name: null })).toEqual({ success: true, item: { page: 2, name: null } });
+        expect(schema.validate({ page: '2' }).success).toBe(false);
+    });
+
+    it('rebuilds composite outputs from their children', () => {
+        const schema = object({
+            list: array(string().transform((s) => s.length)),
+            pair: tuple(
+                number(),
+                string().transform((s) => s.toUpperCase()),
+            ),
+        });
+        const item = { list: ['a', 'bc'], pair: [1, 'x'], extra: true };
+        const result = schema.validate(item);
+        expect(result).toEqual({ success: true, item: { list: [1, 2], pair: [1, 'X'], extra: true } });
+        expect((result as Success<unknown>).item).not.toBe(item);
+        expect(item).toEqual({ list: ['a', 'bc'], pair: [1, 'x'], extra: true });
+    });
+
+    it('returns the output of the matching or branch', () => {
+        const schema = or(
+            number(),
+            string().transform((s) => s.length),
+        );
+        expect(schema.validate('abc')).toEqual({ success: true, item: 3 });
+    });
+
+    it('merges the outputs of both sides of and', () => {
+        const schema = and(
+            object({ a: string().transform((s) => s.length) }),
+            object({ b: number().transform((n) => n * 2) }),
+        );
+        expect(schema.validate({ a: 'abc', b: 2 })).toEqual({ success: true, item: { a: 3, b: 4 } });
+    });
+
+    it('coerces numbers', () => {
+        const schema = coerce.number();
+        expect(schema.validate('42')).toEqual({ success: true, item: 42 });
+        expect(schema.validate(42)).toEqual({ success: true, item: 42 });
+        expect(schema.validate('').success).toBe(false);
+        expect(schema.validate('abc').success).toBe(false);
+    });
+
+    it('coerces booleans', () => {
+        const schema = coerce.boolean();
+        expect(['true', 'ON', '1', 1, true].map((v) => schema.validate(v))).toEqual(
+            Array(5).fill({ success: true, item: true }),
+        );
+        expect(['false', 'off', '0', 0, false].map((v) => schema.validate(v))).toEqual(
+            Array(5).fill({ success: true, item: false }),
+        );
+        expect(schema.validate('maybe').success).toBe(false);
+    });
+
+    it('coerces dates', () => {
+        const schema = coerce.date();
+        expect(schema.validate('2020-01-01T00:00:00.000Z')).toEqual({
+            success: true,
+            item: new Date('2020-01-01T00:00:00.000Z'),
+        });
+        expect(schema.validate(0)).toEqual({ success: true, item: new Date(0) });
+        expect((schema.validate('not a date') as Failure).error.issues).toEqual([
+            {
+                code: 'invalid_type',
+                path: [],
+                expected: 'date',
+                received: 'string',
+                message: 'Expected date, but got string',
+            },
+        ]);
+    });
+
+    it('infers input and output types', () => {
+        const schema = object({
+            id: coerce.number(),
+            name: string().default('x'),
+            len: string().transform((s) => s.length),
+        });
+        const input: Input<typeof schema> = { id: '1', name: undefined, len: 'abc' };
+        const output: Output<typeof schema> = { id: 1, name: 'x', len: 3 };
+        const inferred: Infer<typeof schema> = output;
+        expect(schema.validate(input)).toEqual({ success: true, item: inferred });
+    });
+});
+
+describe('constraints', () => {
+    const issues = (schema: Schema, item: unknown) => {
+        const result = schema.validate(item, { abortEarly: false });
+        return result.success ? [] : result.error.issues;
+    };
+    const codes = (schema: Schema, item: unknown) => issues(schema, item).map((i) => i.code);
+
+    it('checks string lengths', () => {
+        expect(codes(string().min(2), 'a')).toEqual(['too_short']);
+        expect(codes(string().max(2), 'abc')).toEqual(['too_long']);
+        expect(codes(string().length(2), 'ab')).toEqual([]);
+        expect(codes(string().length(2), 'abc')).toEqual(['too_long']);
+        expect(issues(string().min(2), 'a')).toEqual([
+            { code: 'too_short', path: [], minimum: 2, message: 'Expected at least 2 characters' },
+        ]);
+    });
+
+    it('checks string formats', () => {
+        expect(codes(string().regex(/^a+$/g), 'aaa')).toEqual([]);
+        expect(codes(string().regex(/^a+$/g), 'aaa')).toEqual([]);
+        expect(issues(string().email(), 'foo@')).toEqual([
+            { code: 'invalid_string', path: [], validation: 'email', message: 'Expected an email address' },
+        ]);
+        expect(codes(string().email(), 'foo@bar.com')).toEqual([]);
+        expect(codes(string().uuid(), '123e4567-e89b-12d3-a456-426614174000')).toEqual([]);
+        expect(codes(string().uuid(), '123e4567')).toEqual(['invalid_string']);
+        expect(codes(string().url(), 'https://example.com/a?b=c')).toEqual([]);
+        expect(codes(string().url(), 'example')).toEqual(['invalid_string']);
+        expect(codes(string().startsWith('user_'), 'order_1')).toEqual(['invalid_string']);
+    });
+
+    it('uses custom messages', () => {
+        expect(issues(string().min(8, 'Password is too short'), 'abc')[0].message).toEqual('Password is too short');
+    });
+
+    it('checks numbers', () => {
+        expect(codes(number().int(), 1.5)).toEqual(['not_integer']);
+        expect(codes(number().min(1).max(3), 0)).toEqual(['too_small']);
+        expect(codes(number().min(1).max(3), 4)).toEqual(['too_big']);
+        expect(codes(number().min(1).max(3), 3)).toEqual([]);
+        expect(issues(number().positive(), 0)).toEqual([
+            { code: 'too_small', path: [], minimum: 0, inclusive: false, message: 'Expected a positive number' },
+        ]);
+        expect(codes(number().gt(1).lt(3), 1)).toEqual(['too_small']);
+        expect(issues(number().gt(1).lt(3), 3)).toEqual([
+            { code: 'too_big', path: [], maximum: 3, inclusive: false, message: 'Expected a number less than 3' },
+        ]);
+        expect(codes(number().finite(), Infinity)).toEqual(['not_finite']);
+        expect(codes(number().multipleOf(0.1), 0.3)).toEqual([]);
+        expect(codes(number().multipleOf(5), 12)).toEqual(['not_multiple_of']);
+    });
+
+    it('reports every failed constraint when not aborting early', () => {
+        expect(codes(number().int().positive(), -1.5)).toEqual(['not_integer', 'too_small']);
+        const result = number().int().positive().validate(-1.5) as Failure;
+        expect(result.error.issues.map((i) => i.code)).toEqual(['not_integer']);
+    });
+
+    it('checks array lengths', () => {
+        expect(codes(array(number()).min(2), [1])).toEqual(['too_short']);
+        expect(codes(array(number()).max(1), [1, 2])).toEqual(['too_long']);
+        expect(codes(array(number()).nonEmpty(), [])).toEqual(['too_short']);
+
+        const schema = array(number()).nonEmpty();
+        const result = schema.validate([1, 2]);
+        if (result.success) {
+            const [first]: [number, ...number[]] = result.item;
+            expect(first).toEqual(1);
+        } else {
+            fail();
+        }
+    });
+
+    it('refines with a predicate', () => {
+        const schema = object({ password: string(), confirm: string() }).refine(
+            (value) => value.password === value.confirm,
+            'Passwords do not match',
+        );
+        expect(schema.validate({ password: 'a', confirm: 'a' }).success).toBe(true);
+        expect(issues(schema, { password: 'a', confirm: 'b' })).toEqual([
+            { code: 'custom', path: [], message: 'Passwords do not match' },
+        ]);
+        expect(codes(schema, { password: 'a' })).toEqual(['invalid_type']);
+    });
+
+    it('super refines with a context', () => {
+        const schema = array(string()).superRefine((value, ctx) => {
+            value.forEach((item, i) => {
+                if (value.indexOf(item) !== i) {
+                    ctx.addIssue({ message: `Duplicate '${item}'`, path: [i], params: { item } });
+                }
+            });
+        });
+        expect(issues(object({ tags: schema }), { tags: ['a', 'b', 'a', 'b'] })).toEqual([
+            { code: 'custom', path: ['tags', 2], message: "Duplicate 'a'", params: { item: 'a' } },
+            { code: 'custom', path: ['tags', 3], message: "Duplicate 'b'", params: { item: 'b' } },
+        ]);
+    });
+
+    it('chains constraints on coerced numbers', () => {
+        expect(coerce.number().int().validate('3')).toEqual({ success: true, item: 3 });
+        expect(codes(coerce.number().int(), '3.5')).toEqual(['not_integer']);
+    });
+});
+
+describe('unknown keys', () => {
+    const item = { id: 1, extra: 'a', other: 2 };
+
+    it('passes undeclared keys through by default', () => {
+        expect(object({ id: number() }).validate(item)).toEqual({ success: true, item });
+        expect(object({ id: number() }).strip().passthrough().validate(item)).toEqual({ success: true, item });
+    });
+
+    it('strips undeclared keys', () => {
+        expect(object({ id: number() }).strip().validate(item)).toEqual({ success: true, item: { id: 1 } });
+    });
+
+    it('rejects undeclared keys in strict mode', () => {
+        const result = object({ id: number() }).strict().validate(item);
+        expect((result as Failure).error.issues).toEqual([
+            {
+                code: 'unrecognized_keys',
+                path: [],
+                keys: ['extra', 'other'],
+                message: "Unrecognized keys: 'extra', 'other'",
+            },
+        ]);
+        expect(object({ id: number() }).strict().validate({ id: 1 })).toEqual({ success: true, item: { id: 1 } });
+    });
+
+    it('validates undeclared keys against the catchall schema', () => {
+        const schema = object({ id: number() }).catchall(number().transform((n) => n * 2));
+        expect(schema.validate({ id: 1, a: 2 })).toEqual({ success: true, item: { id: 1, a: 4 } });
+        expect((schema.validate(item) as Failure).error.issues.map((i) => i.path)).toEqual([['extra']]);
+    });
+
+    it('applies the policy of each nested object independently', () => {
+        const schema = object({
+            stripped: object({ a: number() }).strip(),
+            strict: object({ b: number() }).strict(),
+        }).strip();
+        expect(schema.validate({ stripped: { a: 1, x: 1 }, strict: { b: 1 }, y: 1 }, { abortEarly: false })).toEqual({
+            success: true,
+            item: { stripped: { a: 1 }, strict: { b: 1 } },
+        });
+        expect(
+            (schema.validate({ stripped: { a: 1 }, strict: { b: 1, x: 1 } }) as Failure).error.issues[0].path,
+        ).toEqual(['strict']);
+    });
+});
+
+describe('optional, nullable and readonly', () => {
+    it('accepts undefined for optional values and null for nullable ones', () => {
+        expect(optional(string()).validate(undefined)).toEqual({ success: true, item: undefined });
+        expect((optional(string()).validate(null) as Failure).error.issues[0].code).toBe('invalid_type');
+        expect(nullable(string()).validate(null)).toEqual({ success: true, item: null });
+        expect(nullable(string()).validate(undefined).success).toBe(false);
+        for (const item of [undefined, null, 'a']) {
+            expect(nullish(string()).validate(item)).toEqual({ success: true, item });
+        }
+        expect(nullish(string()).unwrap().unwrap().def.type).toBe('string');
+    });
+
+    it('freezes readonly outputs', () => {
+        const schema = readonly(object({ tags: readonly(array(string())), point: tuple(number(), number()) }));
+        const result = schema.validate({ tags: ['a'], point: [1, 2] }) as Success<Infer<typeof schema>>;
+        expect(Object.isFrozen(result.item)).toBe(true);
+        expect(Object.isFrozen(result.item.tags)).toBe(true);
+        expect(Object.isFrozen(result.item.point)).toBe(false);
+        expect(readonly(string()).validate('a')).toEqual({ success: true, item: 'a' });
+        expect(readonly(string()).validate(1).success).toBe(false);
+    });
+});
+
+describe('object combinators', () => {
+    const user = object({ id: number(), name: string(), email: optional(string().email()) });
+
+    it('exposes the shape', () => {
+        expect(Object.keys(user.shape)).toEqual(['id', 'name', 'email']);
+        expect(user.shape.name.def.type).toBe('string');
+    });
+
+    it('extends and merges shapes', () => {
+        const admin = user.extend({ role: literal('admin'), id: string() });
+        const item: Infer<typeof admin> = { id: 'a', name: 'b', role: 'admin' };
+        expect(admin.validate(item)).toEqual({ success: true, item });
+        expect(admin.validate({ ...item, id: 1 }).success).toBe(false);
+        expect(user.validate({ ...item, id: 1 }).success).toBe(true);
+
+        const merged = object({ id: number() }).merge(object({ tags: array(string()) }).strict());
+        const tagged: Infer<typeof merged> = { id: 1, tags: [] };
+        expect(merged.validate(tagged)).toEqual({ success: true, item: tagged });
+        expect((merged.validate({ ...tagged, extra: 1 }) as Failure).error.issues[0].code).toBe('unrecognized_keys');
+    });
+
+    it('picks and omits keys', () => {
+        const picked = user.pick({ id: true, name: true }).strict();
+        const item: Infer<typeof picked> = { id: 1, name: 'a' };
+        expect(picked.validate(item)).toEqual({ success: true, item });
+        expect(picked.validate({ ...item, email: 'a@b.c' }).success).toBe(false);
+
+        const omitted = user.omit({ id: true }).strict();
+        const rest: Infer<typeof omitted> = { name: 'a', email: 'a@b.c' };
+        expect(omitted.validate(rest)).toEqual({ success: true, item: rest });
+        expect(omitted.validate({ ...rest, id: 1 }).success).toBe(false);
+        expect(Object.keys(omitted.shape)).toEqual(['name', 'email']);
+    });
+
+    it('makes keys optional or required', () => {
+        const update = user.partial();
+        const item: Infer<typeof update> = { name: 'a', id: undefined };
+        expect(update.validate({ name: 'a' })).toEqual({ success: true, item: { name: 'a' } });
+        expect(update.validate({ id: 'a' }).success).toBe(false);
+        expect(update.validate(item).success).toBe(true);
+
+        const complete = update.required();
+        const full: Infer<typeof complete> = { id: 1, name: 'a', email: 'a@b.c' };
+        expect(complete.validate(full)).toEqual({ success: true, item: full });
+        expect((complete.validate({ id: 1, name: 'a' }) as Failure).error.issues[0].path).toEqual(['email']);
+        expect(complete.shape.email.def.type).toBe('string');
+    });
+
+    it('makes nested objects partial', () => {
+        const settings = object({ theme: string(), editor: object({ tabSize: number(), font: string() }) });
+        const patch = settings.deepPartial();
+        const item: Infer<typeof patch> = { editor: { tabSize: 2 } };
+        expect(patch.validate(item)).toEqual({ success: true, item });
+        expect(patch.validate({}).success).toBe(true);
+        expect((patch.validate({ editor: { font: 1 } }) as Failure).error.issues[0].path).toEqual(['editor', 'font']);
+    });
+
+    it('builds an enum of the keys', () => {
+        const key = user.keyof();
+        const item: Infer<typeof key> = 'email';
+        expect(key.validate(item)).toEqual({ success: true, item });
+        expect(key.def).toEqual({ type: 'enum', options: ['id', 'name', 'email'] });
+        expect(key.validate('role').success).toBe(false);
+    });
+
+    it('keeps the handling of unknown keys', () => {
+        const strict = user.strict();
+        expect(strict.pick({ id: true }).validate({ id: 1, name: 'a' }).success).toBe(false);
+        expect(strict.partial().def).toMatchObject({ unknownKeys: { strict: undefined } });
+        expect(user.def).toMatchObject({ unknownKeys: 'passthrough' });
+    });
+});
+
+describe('primitives and literals', () => {
+    const issues = (schema: Schema, item: unknown) => {
+        const result = schema.validate(item);
+        return result.success ? [] : result.error.issues;
+    };
+    const message = (schema: Schema, item: unknown) => issues(schema, item).map((i) => i.message)[0];
+
+    enum Color {
+        Red,
+        Green,
+    }
+
+    enum Direction {
+        Up = 'up',
+        Down = 'down',
+    }
+
+    class Point {}
+
+    it('rejects NaN numbers', () => {
+        expect(message(number(), NaN)).toEqual('Expected number, but got NaN');
+    });
+
+    it('validates null, undefined, bigint and symbol', () => {
+        expect(issues(nullType(), null)).toEqual([]);
+        expect(message(nullType(), undefined)).toEqual('Expected null, but got undefined');
+        expect(issues(undefinedType(), undefined)).toEqual([]);
+        expect(message(undefinedType(), null)).toEqual('Expected undefined, but got null');
+        expect(issues(bigint(), BigInt(1))).toEqual([]);
+        expect(message(bigint(), 1)).toEqual('Expected bigint, but got number');
+        expect(issues(symbol(), Symbol('a'))).toEqual([]);
+    });
+
+    it('validates dates', () => {
+        expect(issues(date(), new Date())).toEqual([]);
+        expect(message(date(), new Date('foo'))).toEqual('Expected date, but got invalid date');
+        expect(message(date(), '2020-01-01')).toEqual('Expected date, but got string');
+    });
+
+    it('validates class instances', () => {
+        expect(issues(instanceOf(Point), new Point())).toEqual([]);
+        expect(message(instanceOf(Point), {})).toEqual('Expected Point, but got object');
+    });
+
+    it('accepts anything with unknown and nothing with never', () => {
+        expect(issues(unknown(), { a: 1 })).toEqual([]);
+        expect(message(never(), 1)).toEqual('Expected never, but got number');
+    });
+
+    it('validates literals', () => {
+        expect(issues(literal('a'), 'a')).toEqual([]);
+        expect(issues(literal(1), 2)).toEqual([
+            { code: 'invalid_literal', path: [], expected: 1, received: 2, message: 'Expected 1, but got 2' },
+        ]);
+        expect(message(literal('a'), 'b')).toEqual("Expected 'a', but got 'b'");
+    });
+
+    it('validates enums', () => {
+        expect(issues(enumOf(['a', 'b'] as const), 'b')).toEqual([]);
+        expect(issues(enumOf(['a', 'b'] as const), 'c')).toEqual([
+            {
+                code: 'invalid_enum_value',
+                path: [],
+                options: ['a', 'b'],
+                received: 'c',
+                message: "Expected one of 'a', 'b', but got 'c'",
+            },
+        ]);
+        expect(issues(nativeEnum(Color), Color.Green)).toEqual([]);
+        expect(message(nativeEnum(Color), 'Green')).toEqual("Expected one of 0, 1, but got 'Green'");
+        expect(issues(nativeEnum(Direction), 'up')).toEqual([]);
+        expect(message(nativeEnum(Direction), 'Up')).toEqual("Expected one of 'up', 'down', but got 'Up'");
+    });
+
+    it('infers literal types', () => {
+        const schema = object({
+            kind: literal('point'),
+            size: enumOf(['s', 'm'] as const),
+            color: nativeEnum(Color),
+            at: date(),
+            point: instanceOf(Point),
+            nothing: nullType(),
+        });
+        const item: Infer<typeof schema> = {
+            kind: 'point',
+            size: 'm',
+            color: Color.Red,
+            at: new Date(0),
+            point: new Point(),
+            nothing: null,
+        };
+        expect(schema.validate(item)).toEqual({ success: true, item });
+    });
+});
+
+describe('unions and intersections', () => {
+    const issues = (schema: Schema, item: unknown) => {
+        const result = schema.validate(item);
+        return result.success ? [] : result.error.issues;
+    };
+
+    it('validates variadic unions', () => {
+        const schema = union(string(), number(), boolean(), nullType());
+        const items: Infer<typeof schema>[] = ['a', 1, true, null];
+        items.forEach((item) => expect(schema.validate(item)).toEqual({ success: true, item }));
+        expect(issues(schema, {})).toEqual([
+            expect.objectContaining({
+                code: 'invalid_union',
+                branches: [
+                    [expect.objectContaining({ expected: 'string' })],
+                    [expect.objectContaining({ expected: 'number' })],
+                    [expect.objectContaining({ expected: 'boolean' })],
+                    [expect.objectContaining({ expected: 'null' })],
+                ],
+            }),
+        ]);
+    });
+
+    describe('discriminated unions', () => {
+        const schema = discriminatedUnion('type', [
+            object({ type: literal('click'), x: number(), y: number() }),
+            object({ type: literal('key'), key: string() }),
+            object({ type: literal(3), code: number().transform((n) => n + 1) }),
+        ]);
+
+        it('validates the matching branch', () => {
+            const item: Infer<typeof schema> = { type: 'key', key: 'a' };
+            expect(schema.validate(item)).toEqual({ success: true, item });
+            expect(schema.validate({ type: 3, code: 1 })).toEqual({ success: true, item: { type: 3, code: 2 } });
+        });
+
+        it('reports the errors of the matching branch only', () => {
+            expect(issues(schema, { type: 'click', x: 1 })).toEqual([
+                {
+                    code: 'invalid_type',
+                    path: ['y'],
+                    expected: 'number',
+                    received: 'undefined',
+                    message: 'Expected number, but got undefined',
+                },
+            ]);
+        });
+
+        it('reports unknown discriminator values', () => {
+            expect(issues(schema, { type: 'scroll' })).toEqual([
+                {
+                    code: 'invalid_union_discriminator',
+                    path: ['type'],
+                    options: ['click', 'key', 3],
+                    message: "Unknown discriminator value 'scroll', expected one of 'click', 'key', 3",
+                },
+            ]);
+            expect(issues(schema, null)).toEqual([expect.objectContaining({ code: 'invalid_type' })]);
+        });
+
+        it('rejects options without a literal discriminator', () => {
+            expect(() =>
+                discriminatedUnion('type', [object({ type: literal('a') }), object({ type: string() })] as any),
+            ).toThrow("Every option of the discriminated union must declare 'type' as a literal");
+            expect(() =>
+                discriminatedUnion('type', [object({ type: literal('a') }), object({ type: literal('a') })]),
+            ).toThrow("Duplicate discriminator value 'a'");
+        });
+    });
+
+    it('validates variadic intersections and merges their outputs', () => {
+        const schema = intersection(
+            object({ a: string().transform((s) => s.length) }).strip(),
+            object({ b: number() }).strip(),
+            object({ c: object({ d: boolean() }) }).strip(),
+        );
+        const output: Infer<typeof schema> = { a: 3, b: 1, c: { d: true } };
+        expect(schema.validate({ a: 'abc', b: 1, c: { d: true }, e: 1 })).toEqual({ success: true, item: output });
+        expect(issues(schema, { a: 'abc' })).toEqual([
+            expect.objectContaining({
+                code: 'invalid_intersection',
+                branches: [[], [expect.objectContaining({ path: ['b'] })], [expect.objectContaining({ path: ['c'] })]],
+            }),
+        ]);
+    });
+});
+
+describe('collections', () => {
+    const paths = (schema: Schema, item: unknown) => {
+        const result = schema.validate(item, { abortEarly: false });
+        return result.success ? [] : result.error.issues.map((i) => i.path);
+    };
+
+    it('validates records', () => {
+        const schema = record(string().uuid(), object({ name: string() }));
+        const item: Infer<typeof schema> = { '123e4567-e89b-12d3-a456-426614174000': { name: 'a' } };
+        expect(schema.validate(item)).toEqual({ success: true, item });
+        expect(paths(schema, { abc: { name: 'a' }, '123e4567-e89b-12d3-a456-426614174000': { name: 1 } })).toEqual([
+            ['abc'],
+            ['123e4567-e89b-12d3-a456-426614174000', 'name'],
+        ]);
+        expect(paths(schema, [])).toEqual([[]]);
+    });
+
+    it('transforms record values', () => {
+        const schema = record(string(), coerce.number());
+        const output: Infer<typeof schema> = { a: 1, b: 2 };
+        expect(schema.validate({ a: '1', b: 2 })).toEqual({ success: true, item: output });
+    });
+
+    it('validates maps', () => {
+        const schema = map(number(), string());
+        const item: Infer<typeof schema> = new Map([[1, 'a']]);
+        const result = schema.validate(item);
+        expect(result).toEqual({ success: true, item });
+        expect((result as Success<unknown>).item).not.toBe(item);
+        expect(
+            paths(
+                schema,
+                new Map<unknown, unknown>([
+                    [1, 2],
+                    ['b', 'c'],
+                ]),
+            ),
+        ).toEqual([[1], ['b']]);
+        expect(paths(schema, { 1: 'a' })).toEqual([[]]);
+    });
+
+    it('validates sets', () => {
+        const schema = set(string());
+        const item: Infer<typeof schema> = new Set(['a', 'b']);
+        expect(schema.validate(item)).toEqual({ success: true, item });
+        expect(paths(schema, new Set(['a', 1, 'b', 2]))).toEqual([[1], [3]]);
+        expect(paths(schema, ['a'])).toEqual([[]]);
+    });
+});
+
+describe('lazy', () => {
+    interface Comment {
+        text: string;
+        replies: Comment[];
+    }
+
+    const comment: Schema<Comment> = lazy(() => object({ text: string(), replies: array(comment) }));
+
+    it('validates recursive schemas', () => {
+        const item: Comment = { text: 'a', replies: [{ text: 'b', replies: [{ text: 'c', replies: [] }] }] };
+        expect(comment.validate(item)).toEqual({ success: true, item });
+        expect(
+            (comment.validate({ text: 'a', replies: [{ text: 'b', replies: [{ text: 1, replies: [] }] }] }) as Failure)
+                .error.issues[0].path,
+        ).toEqual(['replies', 0, 'replies', 0, 'text']);
+    });
+
+    it('validates json values', () => {
+        type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+        const json: Schema<Json> = lazy(() =>
+            union(string(), number(), boolean(), nullType(), array(json), record(string(), json)),
+        );
+        const item: Json = { a: [1, 'b', { c: null, d: [true] }] };
+        expect(json.validate(item)).toEqual({ success: true, item });
+        expect(json.validate({ a: [undefined] }).success).toBe(false);
+    });
+
+    it('references schemas declared later', () => {
+        const user = object({ name: string(), team: lazy(() => team) });
+        const team = object({ name: string() });
+        expect(user.validate({ name: 'a', team: { name: 'b' } }).success).toBe(true);
+    });
+
+    it('rejects cyclic inputs', () => {
+        const item: { text: string; replies: unknown[] } = { text: 'a', replies: [] };
+        item.replies.push({ text: 'b', replies: [item] });
+        expect((comment.validate(item) as Failure).error.issues).toEqual([
+            {
+                code: 'cyclic_reference',
+                path: ['replies', 0, 'replies', 0],
+                message: 'Value contains a reference to itself',
+            },
+        ]);
+    });
+
+    it('accepts the same object on different branches', () => {
+        const shared = { text: 'shared', replies: [] };
+        expect(comment.validate({ text: 'a', replies: [shared, shared] }).success).toBe(true);
+        expect(comment.validate(shared).success).toBe(true);
+    });
+});
+
+describe('limits', () => {
+    type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+    const json: Schema<Json> = lazy(() =>
+        union(string(), number(), boolean(), nullType(), array(json), record(string(), json)),
+    );
+    const issues = (result: { success: boolean }) => (result as Failure).error.issues;
+
+    afterEach(() => setDefaultLimits({}));
+
+    it('limits the depth of nested values', () => {
+        const schema = object({ a: array(object({ b: number() })) });
+        expect(schema.validate({ a: [{ b: 1 }] }, { limits: { maxDepth: 3 } }).success).toBe(true);
+        expect(issues(schema.validate({ a: [{ b: 1 }] }, { limits: { maxDepth: 2 } }))).toEqual([
+            {
+                code: 'limit_exceeded',
+                path: ['a', 0],
+                limit: 'maxDepth',
+                maximum: 2,
+                message: 'Exceeds the maximum depth of 2',
+            },
+        ]);
+
+        let deep: Json = [];
+        for (let i = 0; i < 10000; i++) {
+            deep = [deep];
+        }
+        const result = json.validate(deep, { limits: { maxDepth: 100 } });
+        expect(issues(result)[0]).toMatchObject({ code: 'invalid_union' });
+        expect(JSON.stringify(result)).toContain('Exceeds the maximum depth of 100');
+    });
+
+    it('bounds the depth by default', async () => {
+        let deep: Json = [];
+        for (let i = 0; i < 20000; i++) {
+            deep = [deep];
+        }
+        expect(JSON.stringify(json.validate(deep))).toContain('Exceeds the maximum depth of 256');
+        expect(JSON.stringify(await json.validateAsync(deep))).toContain('Exceeds the maximum depth of 256');
+        setDefaultLimits({ maxStringLength: 10 });
+        expect(JSON.stringify(json.validate(deep))).toContain('Exceeds the maximum depth of 256');
+        setDefaultLimits({ maxDepth: 100 });
+        expect(JSON.stringify(json.validate(deep))).toContain('Exceeds the maximum depth of 100');
+        expect(array(array(number())).validate([[1]], { limits: { maxDepth: 1 } }).success).toBe(false);
+    });
+
+    it('limits the length of arrays, sets, maps and strings', () => {
+        const limits = { maxArrayLength: 2, maxStringLength: 3 };
+        expect(array(number()).validate([1, 2], { limits }).success).toBe(true);
+        expect(issues(array(number()).validate([1, 2, 3], { limits }))[0]).toMatchObject({
+            code: 'limit_exceeded',
+            limit: 'maxArrayLength',
+            message: 'Exceeds the maximum length of 2',
+        });
+        expect(set(number()).validate(new Set([1, 2, 3]), { limits }).success).toBe(false);
+        expect(map(string(), number()).validate(new Map([['a', 1]]), { limits }).success).toBe(true);
+        expect(issues(object({ name: string() }).validate({ name: 'abcd' }, { limits }))).toEqual([
+            {
+                code: 'limit_exceeded',
+                path: ['name'],
+                limit: 'maxStringLength',
+                maximum: 3,
+                message: 'Exceeds the maximum length of 3',
+            },
+        ]);
+    });
+
+    it('limits the keys of the whole value', () => {
+        const schema = record(string(), record(string(), number()));
+        const limits = { maxKeys: 4 };
+        expect(schema.validate({ a: { b: 1 }, c: { d: 1 } }, { limits }).success).toBe(true);
+        expect(issues(schema.validate({ a: { b: 1, c: 2 }, d: { e: 1 } }, { limits }))).toEqual([
+            {
+                code: 'limit_exceeded',
+                path: ['d'],
+                limit: 'maxKeys',
+                maximum: 4,
+                message: 'Exceeds the maximum of 4 keys in total',
+            },
+        ]);
+        // counted again for each validation
+        expect(schema.validate({ a: { b: 1 }, c: { d: 1 } }, { limits }).success).toBe(true);
+    });
+
+    it('counts the keys of the union and intersection branches once', () => {
+        const pair = union(object({ a: string(), b: string() }), object({ a: number(), b: number() }));
+        const pairs = [
+            { a: 1, b: 1 },
+            { a: 2, b: 2 },
+        ];
+        expect(array(pair).validate(pairs, { limits: { maxKeys: 4 } }).success).toBe(true);
+        expect(array(pair).validate(pairs, { limits: { maxKeys: 3 } }).success).toBe(false);
+        expect(pair.validate(pairs[0], { limits: { maxKeys: 2 } }).success).toBe(true);
+        const both = intersection(object({ a: number() }), object({ b: number() }));
+        expect(object({ v: both }).validate({ v: { a: 1, b: 2 } }, { limits: { maxKeys: 3 } }).success).toBe(true);
+        expect(object({ v: both }).validate({ v: { a: 1, b: 2 } }, { limits: { maxKeys: 2 } }).success).toBe(false);
+        expect(both.validate({ a: 1, b: 2 }, { limits: { maxKeys: 2 } }).success).toBe(true);
+    });
+
+    it('applies the default limits to the validations which do not give theirs', () => {
+        setDefaultLimits({ maxStringLength: 1, maxArrayLength: 1 });
+        expect(string().validate('ab').success).toBe(false);
+        expect(string().validate('ab', { limits: { maxStringLength: 2 } }).success).toBe(true);
+        expect(array(string()).validate(['a', 'b'], { limits: { maxStringLength: 2 } }).success).toBe(false);
+        setDefaultLimits({});
+        expect(string().validate('ab').success).toBe(true);
+    });
+
+    it('rejects the keys which could pollute prototypes', () => {
+        const schema = object({ name: string() });
+        expect(issues(schema.validate(JSON.parse('{"name": "a", "__proto__": {"admin": true}}')))).toEqual([
+            { code: 'forbidden_key', path: ['__proto__'], message: 'The key __proto__ is not allowed' },
+        ]);
+        expect(issues(schema.strip().validate({ name: 'a', constructor: {} }))[0].code).toBe('forbidden_key');
+        expect(issues(record(string(), unknown()).validate({ prototype: {} }))[0].code).toBe('forbidden_key');
+        expect(object({ constructor: string() }).validate({ constructor: 'a' }).success).toBe(true);
+    });
+
+    it('rejects accessors without running them', () => {
+        const get = jest.fn(() => 'a');
+        const item = Object.defineProperty({}, 'name', { get, enumerable: true });
+        expect(issues(object({ name: string() }).validate(item))).toEqual([
+            { code: 'accessor_property', path: ['name'], message: 'Expected a value, but got an accessor' },
+        ]);
+        expect(record(string(), string()).validate(item).success).toBe(false);
+        expect(get).not.toHaveBeenCalled();
+    });
+
+    it('ignores inherited properties', () => {
+        const item = Object.create({ name: 'a' });
+        expect(
+            object({ name: optional(string()) })
+                .strict()
+                .validate(item).success,
+        ).toBe(true);
+        expect(object({ name: string() }).validate(item).success).toBe(false);
+    });
+});
+
+describe('async validation', () => {
+    const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    const taken = new Set(['admin']);
+    const username = string()
+        .min(3)
+        .refineAsync(async (name) => {
+            await delay(1);
+            return !taken.has(name);
+        }, 'Username is taken');
+
+    it('validates schemas without async parts', async () => {
+        const schema = object({ name: string(), tags: array(string()) });
+        for (const value of [{ name: 'a', tags: ['b'] }, { name: 1, tags: [2] }, null]) {
+            for (const options of [undefined, { abortEarly: false }]) {
+                expect(await schema.validateAsync(value, options)).toEqual(schema.validate(value, options));
+            }
+        }
+    });
+
+    it('runs async refinements', async () => {
+        expect(await username.validateAsync('alice')).toEqual({ success: true, item: 'alice' });
+        expect((await username.validateAsync('admin')) as Failure).toMatchObject({
+            error: { issues: [{ code: 'custom', path: [], message: 'Username is taken' }] },
+        });
+        expect(((await username.validateAsync('ab')) as Failure).error.issues[0].code).toBe('too_short');
+    });
+
+    it('throws when validating async refinements synchronously', () => {
+        const message = 'The schema contains async refinements, validate it with validateAsync() instead of validate()';
+        expect(() => username.validate('alice')).toThrow(message);
+        expect(() => object({ user: object({ name: username }) }).validate({ user: { name: 'alice' } })).toThrow(
+            message,
+        );
+    });
+
+    it('validates the members of objects, arrays and tuples concurrently', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const slow = number().refineAsync(async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await delay(5);
+            running--;
+            return true;
+        });
+
+        for (const [schema, value] of [
+            [object({ a: slow, b: slow, c: slow }), { a: 1, b: 2, c: 3 }],
+            [array(slow), [1, 2, 3]],
+            [tuple(slow, slow, slow), [1, 2, 3]],
+        ] as const) {
+            maxRunning = 0;
+            expect(await (schema as Schema).validateAsync(value)).toEqual({ success: true, item: value });
+            expect(maxRunning).toBe(3);
+        }
+    });
+
+    it('reports the issues of every member', async () => {
+        const schema = object({ users: array(username) });
+        const result = (await schema.validateAsync(
+            { users: ['admin', 'ab', 'bob'] },
+            { abortEarly: false },
+        )) as Failure;
+        expect(result.error.issues.map(({ path, message }) => [path, message])).toEqual([
+            [['users', 0], 'Username is taken'],
+            [['users', 1], 'Expected at least 3 characters'],
+        ]);
+        expect(((await schema.validateAsync({ users: ['admin', 'ab'] })) as Failure).error.issues).toHaveLength(1);
+    });
+
+    it('tries union branches in order', async () => {
+        const tried: string[] = [];
+        const branch = (name: string, accept: boolean) =>
+            unknown().refineAsync(async () => {
+                tried.push(name);
+                await delay(name === 'a' ? 5 : 1);
+                return accept;
+            });
+
+        expect(await union(branch('a', false), branch('b', true), branch('c', true)).validateAsync(1)).toEqual({
+            success: true,
+            item: 1,
+        });
+        expect(tried).toEqual(['a', 'b']);
+    });
+
+    it('validates lazy schemas', async () => {
+        interface Node {
+            name: string;
+            children: Node[];
+        }
+        const node: Schema<Node> = lazy(() => object({ name: username, children: array(node) }));
+        const shared = { name: 'shared', children: [] };
+        expect((await node.validateAsync({ name: 'root', children: [shared, shared] })).success).toBe(true);
+
+        const cyclic: Node = { name: 'root', children: [] };
+        cyclic.children.push(cyclic);
+        expect(((await node.validateAsync(cyclic)) as Failure).error.issues[0]).toMatchObject({
+            code: 'cyclic_reference',
+            path: ['children', 0],
+        });
+    });
+});
+
+describe('fn', () => {
+    const greet = fn(tuple(string(), optional(number().int())), string());
+
+    it('validates the arguments and the return value', () => {
+        const impl = greet.implement((name, times = 1) => `Hello ${name}`.repeat(times));
+        expect(impl('Ada', undefined)).toBe('Hello Ada');
+        expect((impl as (name: string) => string)('Ada')).toBe('Hello Ada'); // omitted optional arguments
+        expect(impl('Ada', 2)).toBe('Hello AdaHello Ada');
+        expect(() => impl('Ada', 1.5)).toThrow(ValidationError);
+        expect(() => impl('Ada', 1.5)).toThrow('arguments.1: Expected an integer');
+        expect(() => (impl as (...args: unknown[]) => string)(1, 2, 3)).toThrow(
+            'arguments: Expected a tuple of length 2, but got 3',
+        );
+        expect(() => greet.implement(() => (42 as unknown) as string)('Ada', 1)).toThrow(
+            'returns: Expected string, but got number',
+        );
+    });
+
+    it('passes the outputs of the argument schemas and this', () => {
+        const add = fn(tuple(coerce.number(), coerce.number()), number().transform(String));
+        expect(add.implement((a, b) => a + b)('1', 2)).toBe('3');
+
+        const counter = {
+            count: 1,
+            get: fn(tuple(number()), number()).implement(function (this: any, n) {
+                return this.count + n;
+            }),
+        };
+        expect(counter.get(1)).toBe(2);
+    });
+
+    it('awaits and validates promises', async () => {
+        const user = object({ id: number(), name: string() });
+        const find = fn(tuple(number()), user).implement(async (id) => ({
+            id,
+            name: id === 1 ? 'Ada' : ((null as unknown) as string),
+        }));
+        await expect(find(1)).resolves.toEqual({ id: 1, name: 'Ada' });
+        await expect(find(2)).rejects.toThrow('returns.name: Expected string, but got null');
+
+        const invalid = find(('x' as unknown) as number);
+        expect(invalid).toBeInstanceOf(Promise);
+        await expect(invalid).rejects.toThrow('arguments.0: Expected number, but got string');
+    });
+
+    it('validates functions, implementing them', () => {
+        const schema = object({ onChange: fn(tuple(string()), boolean()) });
+        const result = schema.validate({ onChange: (value: string) => value.length > 0 });
+        if (!result.success) {
+            throw result.error;
+        }
+        expect(result.item.onChange('a')).toBe(true);
+        expect(() => result.item.onChange((1 as unknown) as string)).toThrow(
+            'arguments.0: Expected string, but got number',
+        );
+        expect((schema.validate({ onChange: 'no' }) as Failure).error.issues[0]).toMatchObject({
+            code: 'invalid_type',
+            path: ['onChange'],
+            expected: 'function',
+        });
+    });
+});
+
+describe('brand, parse and assert', () => {
+    const userId = string().uuid().brand<'UserId'>();
+    const id = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('validates branded schemas as their unbranded ones', () => {
+        expect(userId.validate(id)).toEqual({ success: true, item: id });
+        expect(userId.validate('42').success).toBe(false);
+        const even = number()
+            .brand<'Even'>()
+            .refine((n) => n % 2 === 0, 'Expected an even number');
+        expect((even.validate(3) as Failure).error.issues[0].message).toBe('Expected an even number');
+    });
+
+    it('parses values, throwing their validation error', () => {
+        expect(parse(userId, id)).toBe(id);
+        expect(parse(object({ page: number().default(1) }), {})).toEqual({ page: 1 });
+        expect(() => parse(userId, '42')).toThrow(ValidationError);
+        expect(() => parse(object({ id: userId }), { id: '42' })).toThrow('id: Expected a UUID');
+        expect(() => parse(array(number()), [1, 'a', 'b'], { abortEarly: false })).toThrow(
+            expect.objectContaining({ issues: [expect.objectContaining({ path: [1] }), expect.anything()] }),
+        );
+    });
+
+    it('asserts the type of values', () => {
+        const value: unknown = id;
+        assert(userId, value);
+        const branded: Infer<typeof userId> = value;
+        expect(branded).toBe(id);
+        expect(() => assert(userId, 42)).toThrow('Expected string, but got number');
+    });
+});
+
+describe('ValidationError', () => {
+    const schema = object({
+        name: string(),
+        address: object({
+            zip: or(string(), number()),
+        }),
+    });
+
+    it('builds its message from the issues', () => {
+        const result = schema.validate({ name: 'abc', address: { zip: true } });
+        expect(result.success).toBe(false);
+        expect((result as Failure).error).toBeInstanceOf(ValidationError);
+        expect((result as Failure).error.message).toEqual('address.zip: Value does not match any branch of the union');
+    });
+
+    it('flattens issues into a field to messages map', () => {
+        const result = schema.validate({ name: 'abc', address: { zip: true } });
+        expect((result as Failure).error.flatten()).toEqual({
+            formErrors: [],
+            fieldErrors: {
+                'address.zip': ['Expected string, but got boolean', 'Expected number, but got boolean'],
+            },
+        });
+    });
+
+    it('flattens the issues of keys named after object members', () => {
+        const input = JSON.parse('{"a": "x", "constructor": 1, "__proto__": 2}');
+        const result = object({ a: string() }).validate(input, { abortEarly: false });
+        const { fieldErrors } = (result as Failure).error.flatten();
+        expect(Object.keys(fieldErrors)).toEqual(['constructor', '__proto__']);
+        expect(fieldErrors['constructor']).toEqual(['The key constructor is not allowed']);
+        expect(fieldErrors['__proto__']).toEqual(['The key __proto__ is not allowed']);
+    });
+
+    it('reports issues on the value itself as form errors', () => {
+        const result = schema.validate('abc');
+        expect((result as Failure).error.flatten()).toEqual({
+            formErrors: ['Expected object, but got string'],
+            fieldErrors: {},
+        });
+    });
+});
+
 describe('Infer', () => {
     {
         const schema = object({
@@ -287,6 +1496,93 @@ describe('Infer', () => {
             test({ name: `Infer test ${name}`, item, schema });
         }
     }
+
+    // type-level checks: they fail to compile rather than at runtime
+    type Equals<A, B> = (<X>() => X extends A ? 1 : 2) extends <X>() => X extends B ? 1 : 2 ? true : false;
+    const expectType = <T extends true>(_: T) => undefined;
+
+    it('marks the keys of optional values optional', () => {
+        const schema = object({
+            foo: number(),
+            bar: optional(string()),
+            baz: nullable(string()),
+            qux: nullish(number()),
+        });
+        expectType<
+            Equals<
+                Infer<typeof schema>,
+                { foo: number; bar?: string | undefined; baz: string | null; qux?: number | null }
+            >
+        >(true);
+
+        const item: Infer<typeof schema> = { foo: 1, baz: null };
+        expect(schema.validate(item)).toEqual({ success: true, item });
+    });
+
+    it('tells inputs and outputs apart', () => {
+        const schema = object({ page: number().default(1), search: string().transform((s) => s.length) });
+        expectType<Equals<Input<typeof schema>, { page?: number | undefined; search: string }>>(true);
+        expectType<Equals<Output<typeof schema>, { page: number; search: number }>>(true);
+    });
+
+    it('infers readonly types', () => {
+        const user = readonly(object({ name: string(), tags: readonly(array(string())) }));
+        expectType<Equals<Infer<typeof user>, { readonly name: string; readonly tags: readonly string[] }>>(true);
+
+        const pair = readonly(tuple(string(), number()));
+        expectType<Equals<Infer<typeof pair>, readonly [string, number]>>(true);
+        const counts = readonly(map(string(), number()));
+        expectType<Equals<Infer<typeof counts>, ReadonlyMap<string, number>>>(true);
+        const ids = readonly(set(number()));
+        expectType<Equals<Infer<typeof ids>, ReadonlySet<number>>>(true);
+    });
+
+    it('infers function types', () => {
+        const schema = fn(tuple(string(), coerce.number()), number().default(0));
+        expectType<Equals<Infer<typeof schema>, (args_0: string, args_1: unknown) => number>>(true);
+        expectType<Equals<Input<typeof schema>, (args_0: string, args_1: number) => number | undefined>>(true);
+        const impl = schema.implement(async (name, n) => name.length + n);
+        expectType<Equals<typeof impl, (args_0: string, args_1: unknown) => Promise<number>>>(true);
+    });
+
+    it('infers records', () => {
+        const counts = record(string(), number());
+        expectType<Equals<Infer<typeof counts>, Record<string, number>>>(true);
+        const flags = record(enumOf(['a', 'b']), boolean());
+        expectType<Equals<Infer<typeof flags>, Partial<Record<'a' | 'b', boolean>>>>(true);
+        expect(flags.validate({ a: true })).toEqual({ success: true, item: { a: true } });
+        // @ts-expect-error the keys of objects are strings
+        record(number(), string());
+    });
+
+    it('infers branded types', () => {
+        const userId = string().uuid().brand<'UserId'>();
+        expectType<Equals<Infer<typeof userId>, string & Brand<'UserId'>>>(true);
+        expectType<Equals<Input<typeof userId>, string>>(true);
+        const email = string()
+            .email()
+            .brand<'Email'>()
+            .refine((s) => s.endsWith('.com'));
+        expectType<Equals<Infer<typeof email>, string & Brand<'Email'>>>(true);
+        const user = object({ id: userId, email: optional(email) });
+        expectType<
+            Equals<Infer<typeof user>, { id: string & Brand<'UserId'>; email?: (string & Brand<'Email'>) | undefined }>
+        >(true);
+
+        const find = (_id: Infer<typeof userId>) => undefined;
+        // @ts-expect-error strings are not user ids until validated
+        find('123e4567-e89b-12d3-a456-426614174000');
+        // @ts-expect-error emails are not user ids
+        find(parse(email, 'a@b.com'));
+    });
+
+    it('infers nested arrays and tuples of objects', () => {
+        const schema = array(array(tuple(object({ a: optional(number()) }), array(object({ b: string() })))));
+        expectType<Equals<Infer<typeof schema>, [{ a?: number | undefined }, { b: string }[]][][]>>(true);
+
+        const item: Infer<typeof schema> = [[[{}, [{ b: 'b' }]]], []];
+        expect(schema.validate(item)).toEqual({ success: true, item });
+    });
 });
 
 describe('Schema', () => {
@@ -0,0 +1,104 @@
+import { Readable } from 'stream';
+import { array, number, object, string } from '../src/schema';
+import { StreamResult, validateStream, ValidationStream } from '../src/stream';
+
+const user = object({ id: number(), name: string() });
+
+const collect = async (
+    chunks: string[],
+    stream: ValidationStream<unknown> = validateStream(array(user)),
+): Promise<StreamResult<unknown>[]> => {
+    const results: StreamResult<unknown>[] = [];
+    for await (const result of Readable.from(chunks.map((chunk) => Buffer.from(chunk))).pipe(stream)) {
+        results.push(result);
+    }
+    return results;
+};
+
+const summary = (results: StreamResult<unknown>[]) =>
+    results.map((result) => (result.success ? result.item : result.error.issues.map((issue) => issue.path)));
+
+describe('validateStream', () => {
+    it('validates NDJSON split across chunks', async () => {
+        const results = await collect([
+            '{"id":1,"na',
+            'me":"Ada"}\n\n{"id":"2","name":"Grace"}\n{"id":',
+            '\n{"id":4,"name":"Alan"}',
+        ]);
+        expect(results.map((result) => result.index)).toEqual([0, 1, 2, 3]);
+        expect(summary(results)).toEqual([{ id: 1, name: 'Ada' }, [[1, 'id']], [[2]], { id: 4, name: 'Alan' }]);
+        expect(results[2].success || results[2].error.issues[0].message).toMatch(/^Invalid JSON: /);
+    });
+
+    it('validates the elements of a JSON array split across chunks', async () => {
+        const text = JSON.stringify([
+            { id: 1, name: 'a ] , [ "} \\" {' },
+            { id: 2, name: ['nested', { a: [1] }] },
+            { id: 3, name: 'c' },
+        ]);
+        const chunks = text.match(/[\s\S]{1,7}/g) as string[];
+        expect(summary(await collect([' \n', ...chunks, '\n']))).toEqual([
+            { id: 1, name: 'a ] , [ "} \\" {' },
+            [[1, 'name']],
+            { id: 3, name: 'c' },
+        ]);
+        expect(await collect(['[', ']'])).toEqual([]);
+        expect(summary(await collect(['[{"id":1,"name":"a"},,tru]']))).toEqual([{ id: 1, name: 'a' }, [[1]], [[2]]]);
+    });
+
+    it('keeps multi-byte characters split across chunks', async () => {
+        const bytes = Buffer.from('{"id":1,"name":"café ☕"}\n');
+        const stream = Readable.from([bytes.slice(0, 21), bytes.slice(21)]).pipe(validateStream(array(user)));
+        for await (const result of stream) {
+            expect(result).toEqual({ success: true, item: { id: 1, name: 'café ☕' }, index: 0 });
+        }
+    });
+
+    it('errors on malformed arrays', async () => {
+        await expect(collect(['[{"id":1,"name":"a"}'])).rejects.toThrow('Unexpected end of the JSON array');
+        await expect(collect(['[] x'])).rejects.toThrow('Unexpected token x after the array');
+        await expect(collect(['{}'], validateStream(array(user), { format: 'json' }))).rejects.toThrow(
+            'Unexpected token { before the array',
+        );
+        expect(() => validateStream(user as never)).toThrow('Streams are validated against array schemas');
+    });
+
+    it('checks the length of the array at the end', async () => {
+        const results = await collect(['[1, 2, 3]'], validateStream(array(number()).max(2)));
+        expect(results.map((result) => result.success)).toEqual([true, true, true, false]);
+        expect(results[3].index).toBeUndefined();
+        expect(results[3]).toMatchObject({ error: { issues: [{ code: 'too_long', path: [] }] } });
+    });
+
+    it('runs async refinements in order', async () => {
+        const delayed = number().refineAsync(
+            (n) => new Promise((resolve) => setTimeout(() => resolve(n % 2 === 0), 5 - n)),
+            'Expected an even number',
+        );
+        const results = await collect(['1\n2\n3\n4\n'], validateStream(array(delayed)));
+        expect(results.map((result) => [result.index, result.success])).toEqual([
+            [0, false],
+            [1, true],
+            [2, false],
+            [3, true],
+        ]);
+    });
+
+    it('only reads the input as the results are consumed', async () => {
+        let read = 0;
+        const lines = function* () {
+            for (let i = 0; i < 10000; i++) {
+                read++;
+                yield `{"id":${i},"name":"user ${i}"}\n`;
+            }
+        };
+        const stream = Readable.from(lines(), { objectMode: false }).pipe(validateStream(array(user)));
+        const iterator = stream[Symbol.asyncIterator]();
+        for (let i = 0; i < 5; i++) {
+            expect((await iterator.next()).value).toMatchObject({ success: true, index: i });
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(read).toBeLessThan(1000);
+        stream.destroy();
+    });
+});
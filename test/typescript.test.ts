@@ -0,0 +1,207 @@
+import {
+    array,
+    bigint,
+    boolean,
+    date,
+    discriminatedUnion,
+    enumOf,
+    fn,
+    intersection,
+    lazy,
+    literal,
+    map,
+    nullable,
+    nullish,
+    number,
+    object,
+    optional,
+    readonly,
+    record,
+    Schema,
+    set,
+    string,
+    tuple,
+    union,
+    unknown,
+} from '../src/schema';
+import { fromJSONSchema } from '../src/jsonSchema';
+import { toTypeScript } from '../src/typescript';
+
+describe('toTypeScript', () => {
+    it('declares objects as interfaces, with optional keys', () => {
+        const user = object({
+            id: number(),
+            name: string().describe('Display name'),
+            email: optional(string().email()),
+            avatar: nullable(string()),
+            nickname: nullish(string()),
+            'created-at': date(),
+        });
+        expect(toTypeScript(user, { name: 'User' })).toBe(
+            [
+                'export interface User {',
+                '    id: number;',
+                '    /** Display name */',
+                '    name: string;',
+                '    email?: string | undefined;',
+                '    avatar: string | null;',
+                '    nickname?: string | null | undefined;',
+                '    "created-at": Date;',
+                '}',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('declares other schemas as type aliases', () => {
+        expect(toTypeScript(string(), { name: 'Id' })).toBe('export type Id = string;\n');
+        expect(toTypeScript(union(literal('a'), literal(1), literal(null)), { name: 'A' })).toBe(
+            'export type A = "a" | 1 | null;\n',
+        );
+        expect(toTypeScript(enumOf(['on', 'off']), { name: 'State' })).toBe('export type State = "on" | "off";\n');
+        expect(toTypeScript(tuple(string(), array(union(string(), number()))), { name: 'Pair' })).toBe(
+            'export type Pair = [string, (string | number)[]];\n',
+        );
+        expect(toTypeScript(intersection(object({ a: bigint() }), union(object({}), unknown())), { name: 'I' })).toBe(
+            ['export type I = {', '    a: bigint;', '} & ({} | unknown);', ''].join('\n'),
+        );
+        expect(
+            toTypeScript(tuple(record(string(), boolean()), map(string(), number()), set(string())), { name: 'C' }),
+        ).toBe('export type C = [Record<string, boolean>, Map<string, number>, Set<string>];\n');
+        expect(toTypeScript(record(enumOf(['a', 'b']), number()), { name: 'R' })).toBe(
+            'export type R = Partial<Record<"a" | "b", number>>;\n',
+        );
+        const handler = fn(tuple(string(), optional(number())), string().default(''));
+        expect(toTypeScript(array(handler), { name: 'H' })).toBe(
+            'export type H = ((...args: [string, number | undefined]) => string)[];\n',
+        );
+        expect(toTypeScript(handler, { name: 'H', input: true })).toBe(
+            'export type H = (...args: [string, number | undefined]) => string | undefined;\n',
+        );
+    });
+
+    it('nests objects with their indentation', () => {
+        const schema = object({ a: object({ b: array(object({ c: string() })) }) });
+        expect(toTypeScript(schema, { name: 'Nested' })).toBe(
+            [
+                'export interface Nested {',
+                '    a: {',
+                '        b: {',
+                '            c: string;',
+                '        }[];',
+                '    };',
+                '}',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('declares named schemas as separate types', () => {
+        const address = object({ city: string() }).named('Address').describe('A postal address');
+        const id = string().uuid().named('Id');
+        const schema = object({ id, home: address, work: optional(address) });
+        expect(toTypeScript(schema, { name: 'Person' })).toBe(
+            [
+                'export interface Person {',
+                '    id: Id;',
+                '    home: Address;',
+                '    work?: Address | undefined;',
+                '}',
+                '',
+                'export type Id = string;',
+                '',
+                '/** A postal address */',
+                'export interface Address {',
+                '    city: string;',
+                '}',
+                '',
+            ].join('\n'),
+        );
+        expect(() => toTypeScript(object({ a: id, b: string().named('Id') }), { name: 'T' })).toThrow(
+            'Two different schemas are named Id',
+        );
+    });
+
+    it('references recursive schemas by name', () => {
+        interface Category {
+            name: string;
+            children: Category[];
+        }
+        const category: Schema<Category> = lazy(() => object({ name: string(), children: array(category) }));
+        expect(toTypeScript(category, { name: 'Category' })).toBe(
+            ['export interface Category {', '    name: string;', '    children: Category[];', '}', ''].join('\n'),
+        );
+        expect(() => toTypeScript(object({ root: category }), { name: 'Tree' })).toThrow(
+            'Recursive schemas must be named to be converted to TypeScript',
+        );
+        const named: Schema<Category> = lazy(() => object({ name: string(), children: array(named) })).named(
+            'Category',
+        );
+        expect(toTypeScript(object({ root: named }), { name: 'Tree' })).toBe(
+            [
+                'export interface Tree {',
+                '    root: Category;',
+                '}',
+                '',
+                'export interface Category {',
+                '    name: string;',
+                '    children: Category[];',
+                '}',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('declares readonly types', () => {
+        const schema = readonly(
+            object({ tags: readonly(array(string())), point: readonly(tuple(number(), number())) }),
+        );
+        expect(toTypeScript(schema, { name: 'R' })).toBe(
+            [
+                'export type R = {',
+                '    readonly tags: readonly string[];',
+                '    readonly point: readonly [number, number];',
+                '};',
+                '',
+            ].join('\n'),
+        );
+        expect(toTypeScript(readonly(set(number())), { name: 'S' })).toBe('export type S = ReadonlySet<number>;\n');
+    });
+
+    it('tells inputs and outputs apart', () => {
+        const schema = object({ page: number().default(1), search: string().transform((s) => s.trim()) });
+        expect(toTypeScript(schema, { name: 'Query' })).toBe(
+            ['export interface Query {', '    page: number;', '    search?: unknown;', '}', ''].join('\n'),
+        );
+        expect(toTypeScript(schema, { name: 'Query', input: true })).toBe(
+            ['export interface Query {', '    page?: number | undefined;', '    search: string;', '}', ''].join('\n'),
+        );
+    });
+
+    it('declares the types of schemas loaded from JSON Schema', () => {
+        const schema = fromJSONSchema({
+            type: 'object',
+            properties: {
+                kind: { const: 'circle' },
+                radius: { type: 'number' },
+                tags: { type: 'array', items: { enum: ['a', 'b'] } },
+            },
+            required: ['kind', 'radius'],
+        });
+        expect(toTypeScript(schema, { name: 'Shape' })).toBe(
+            [
+                'export interface Shape {',
+                '    kind: "circle";',
+                '    radius: number;',
+                '    tags?: ("a" | "b")[] | undefined;',
+                '}',
+                '',
+            ].join('\n'),
+        );
+        const shapes = discriminatedUnion('kind', [
+            object({ kind: literal('circle'), radius: number() }),
+            object({ kind: literal('square'), side: number() }),
+        ]);
+        expect(toTypeScript(shapes, { name: 'Shapes' })).toContain('} | {');
+    });
+});